@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { ClockFace, type ClockFaceProps } from './ClockFace';
+import { generateTimeOptions, formatTime } from './utils/time';
+import { getMessages } from './utils/locale';
+
+// jsdom has no PointerEvent; React only needs the MouseEvent fields
+beforeAll(() => {
+  if (typeof window.PointerEvent === 'undefined') {
+    class PointerEvent extends MouseEvent {
+      pointerId: number;
+      constructor(type: string, init: PointerEventInit = {}) {
+        super(type, init);
+        this.pointerId = init.pointerId ?? 1;
+      }
+    }
+    window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+  }
+});
+
+const renderClock = (props: Partial<ClockFaceProps> = {}) => {
+  const onSelect = vi.fn();
+  render(
+    <ClockFace
+      value={null}
+      options={generateTimeOptions('12:00am', '11:59pm', 15)}
+      onSelect={onSelect}
+      formatValue={(time) => formatTime(time, 'h:mma')}
+      messages={getMessages()}
+      {...props}
+    />
+  );
+  return { onSelect, dial: screen.getByRole('slider') };
+};
+
+// A 200px dial at the origin; the center is (100, 100)
+const mockDialRect = (dial: HTMLElement) => {
+  dial.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 200, height: 200, right: 200, bottom: 200 }) as DOMRect;
+};
+
+describe('ClockFace', () => {
+  it('starts on the hour of the current value with slider semantics', () => {
+    const { dial } = renderClock({ value: { hours: 14, minutes: 30 } });
+
+    expect(dial).toHaveAttribute('aria-label', 'Hours');
+    expect(dial).toHaveAttribute('aria-valuemin', '1');
+    expect(dial).toHaveAttribute('aria-valuemax', '12');
+    expect(dial).toHaveAttribute('aria-valuenow', '2');
+    expect(dial).toHaveAttribute('aria-valuetext', '2:00pm');
+    expect(screen.getByTestId('timepicker-clock-pm')).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('picks the hour and then the minute with the keyboard', () => {
+    const { dial, onSelect } = renderClock({ value: { hours: 9, minutes: 0 } });
+
+    fireEvent.keyDown(dial, { key: 'ArrowUp' });
+    expect(dial).toHaveAttribute('aria-valuenow', '10');
+
+    fireEvent.keyDown(dial, { key: 'Enter' });
+    expect(dial).toHaveAttribute('aria-label', 'Minutes');
+    expect(dial).toHaveAttribute('aria-valuenow', '0');
+
+    fireEvent.keyDown(dial, { key: 'ArrowRight' });
+    fireEvent.keyDown(dial, { key: 'ArrowRight' });
+    expect(dial).toHaveAttribute('aria-valuetext', '10:30am');
+
+    fireEvent.keyDown(dial, { key: 'Enter' });
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ value: '10:30am' })
+    );
+  });
+
+  it('only steps onto times within min/max and the interval', () => {
+    const { dial, onSelect } = renderClock({
+      options: generateTimeOptions('9:00am', '10:00am', 20),
+    });
+
+    expect(dial).toHaveAttribute('aria-valuenow', '9');
+    fireEvent.keyDown(dial, { key: 'ArrowDown' });
+    expect(dial).toHaveAttribute('aria-valuenow', '9');
+    fireEvent.keyDown(dial, { key: 'End' });
+    expect(dial).toHaveAttribute('aria-valuenow', '10');
+    fireEvent.keyDown(dial, { key: 'ArrowUp' });
+    expect(dial).toHaveAttribute('aria-valuenow', '10');
+
+    fireEvent.keyDown(dial, { key: 'Home' });
+    fireEvent.keyDown(dial, { key: 'Enter' });
+    fireEvent.keyDown(dial, { key: 'End' });
+    expect(dial).toHaveAttribute('aria-valuenow', '40');
+
+    fireEvent.keyDown(dial, { key: ' ' });
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ value: '9:40am' })
+    );
+  });
+
+  it('skips disabled options', () => {
+    const options = generateTimeOptions('9:00am', '9:45am', 15).map((option) => ({
+      ...option,
+      disabled: option.time.minutes === 15,
+    }));
+    const { dial } = renderClock({ options });
+
+    fireEvent.keyDown(dial, { key: 'Enter' });
+    fireEvent.keyDown(dial, { key: 'ArrowRight' });
+    expect(dial).toHaveAttribute('aria-valuenow', '30');
+  });
+
+  it('toggles between AM and PM', () => {
+    const { dial } = renderClock({ value: { hours: 9, minutes: 0 } });
+
+    fireEvent.click(screen.getByTestId('timepicker-clock-pm'));
+    expect(dial).toHaveAttribute('aria-valuetext', '9:00pm');
+    expect(screen.getByTestId('timepicker-clock-am')).toHaveAttribute('aria-pressed', 'false');
+
+    fireEvent.click(screen.getByTestId('timepicker-clock-am'));
+    expect(dial).toHaveAttribute('aria-valuetext', '9:00am');
+  });
+
+  it('disables a period without available times', () => {
+    renderClock({ options: generateTimeOptions('9:00am', '11:00am', 30) });
+
+    expect(screen.getByTestId('timepicker-clock-pm')).toBeDisabled();
+  });
+
+  it('goes back to the hours with Backspace and cancels with Escape', () => {
+    const onCancel = vi.fn();
+    const { dial } = renderClock({ onCancel });
+
+    fireEvent.keyDown(dial, { key: 'Enter' });
+    fireEvent.keyDown(dial, { key: 'Backspace' });
+    expect(dial).toHaveAttribute('aria-label', 'Hours');
+
+    fireEvent.keyDown(dial, { key: 'Escape' });
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('follows pointer drags and picks on release', () => {
+    const { dial, onSelect } = renderClock({ value: { hours: 8, minutes: 0 } });
+    mockDialRect(dial);
+
+    // Drag from 12 o'clock round to 3 o'clock
+    fireEvent.pointerDown(dial, { clientX: 100, clientY: 20 });
+    expect(dial).toHaveAttribute('aria-valuenow', '12');
+    fireEvent.pointerMove(dial, { clientX: 180, clientY: 100 });
+    expect(dial).toHaveAttribute('aria-valuenow', '3');
+    fireEvent.pointerUp(dial, { clientX: 180, clientY: 100 });
+    expect(dial).toHaveAttribute('aria-label', 'Minutes');
+
+    // 9 o'clock on the minute dial is :45
+    fireEvent.pointerDown(dial, { clientX: 20, clientY: 100 });
+    fireEvent.pointerUp(dial, { clientX: 20, clientY: 100 });
+    expect(onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ value: '3:45am' })
+    );
+  });
+
+  it('snaps pointer positions to the closest available minute', () => {
+    const { dial } = renderClock({ options: generateTimeOptions('9:00am', '9:59am', 30) });
+    mockDialRect(dial);
+    fireEvent.keyDown(dial, { key: 'Enter' });
+
+    // 20 past is closer to :30 than to :00
+    fireEvent.pointerDown(dial, { clientX: 169, clientY: 140 });
+    expect(dial).toHaveAttribute('aria-valuenow', '30');
+  });
+
+  it('uses an inner ring for afternoon hours in 24-hour mode', () => {
+    const { dial } = renderClock({ hourCycle: 24 });
+    mockDialRect(dial);
+
+    expect(screen.queryByTestId('timepicker-clock-pm')).not.toBeInTheDocument();
+    expect(dial).toHaveAttribute('aria-valuemax', '23');
+
+    fireEvent.pointerDown(dial, { clientX: 180, clientY: 100 });
+    expect(dial).toHaveAttribute('aria-valuenow', '3');
+    fireEvent.pointerMove(dial, { clientX: 150, clientY: 100 });
+    expect(dial).toHaveAttribute('aria-valuenow', '15');
+  });
+
+  it("follows the locale's hour cycle and day-period names", () => {
+    const { dial } = renderClock({ locale: 'de' });
+
+    expect(dial).toHaveAttribute('aria-valuemax', '23');
+    expect(screen.queryByTestId('timepicker-clock-am')).not.toBeInTheDocument();
+
+    cleanup();
+    renderClock({ locale: 'ja', hourCycle: 12 });
+    expect(screen.getByTestId('timepicker-clock-am')).toHaveTextContent('午前');
+    expect(screen.getByTestId('timepicker-clock-pm')).toHaveTextContent('午後');
+  });
+});
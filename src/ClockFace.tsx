@@ -0,0 +1,376 @@
+import {
+  useState,
+  useMemo,
+  useRef,
+  useEffect,
+  type KeyboardEvent,
+  type PointerEvent,
+} from 'react';
+import { formatTime, type TimeValue, type TimeFormatter, type TimeOption } from './utils/time';
+import { getDayPeriodNames, getLocaleHourCycle, type TimePickerMessages } from './utils/locale';
+
+type Stage = 'hours' | 'minutes';
+
+export interface ClockFaceProps {
+  /** Current time; the dial starts on it */
+  value: TimeValue | null;
+  /** Times that can be picked; disabled options are shown but skipped */
+  options: TimeOption[];
+  /** Called with the chosen option once the minute is picked */
+  onSelect: (option: TimeOption) => void;
+  /** Called on Escape */
+  onCancel?: () => void;
+  /** 12 shows one ring and AM/PM toggles, 24 adds an inner ring (default: 12, or the locale's preference) */
+  hourCycle?: 12 | 24;
+  /** BCP 47 locale for the AM/PM names and default hour cycle */
+  locale?: string;
+  /** Formats the slider's value text */
+  formatValue: TimeFormatter;
+  messages: TimePickerMessages;
+}
+
+// Ring radii as a percentage of the dial size
+const OUTER_RADIUS = 40;
+const INNER_RADIUS = 26;
+
+function toPosition(angle: number, radius: number) {
+  const radians = (angle * Math.PI) / 180;
+  return {
+    left: `${50 + radius * Math.sin(radians)}%`,
+    top: `${50 - radius * Math.cos(radians)}%`,
+  };
+}
+
+/** The hour's position on the dial (0-11) and whether it sits on the inner ring */
+function getHourPosition(hours: number, hourCycle: 12 | 24): [number, boolean] {
+  const inner = hourCycle === 24 && (hours === 0 || hours > 12);
+  return [hours % 12, inner];
+}
+
+/**
+ * Pick the value closest to `target` from `values`, treating the dial as a
+ * circle of `size` steps
+ */
+function getClosest(values: number[], target: number, size: number): number | undefined {
+  let closest: number | undefined;
+  let closestDistance = Infinity;
+
+  for (const value of values) {
+    const difference = Math.abs(value - target) % size;
+    const distance = Math.min(difference, size - difference);
+    if (distance < closestDistance) {
+      closest = value;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Analog clock dial: pick the hour, then the minute. The dial is a slider
+ * (arrow keys rotate it, Enter confirms) and follows pointer drags.
+ */
+export function ClockFace({
+  value,
+  options,
+  onSelect,
+  onCancel,
+  hourCycle: hourCycleProp,
+  locale,
+  formatValue,
+  messages,
+}: ClockFaceProps) {
+  const hourCycle = hourCycleProp ?? (locale ? getLocaleHourCycle(locale) : 12);
+  const dialRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+  const [stage, setStage] = useState<Stage>('hours');
+
+  const enabledOptions = useMemo(
+    () => options.filter((option) => !option.disabled),
+    [options]
+  );
+
+  // Minutes available in each hour, in option order
+  const minutesByHour = useMemo(() => {
+    const map = new Map<number, TimeOption[]>();
+    for (const option of enabledOptions) {
+      map.set(option.time.hours, [...(map.get(option.time.hours) ?? []), option]);
+    }
+    return map;
+  }, [enabledOptions]);
+
+  const availableHours = useMemo(
+    () => [...minutesByHour.keys()].sort((a, b) => a - b),
+    [minutesByHour]
+  );
+
+  const [hour, setHour] = useState<number | undefined>(() =>
+    value && minutesByHour.has(value.hours) ? value.hours : availableHours[0]
+  );
+  const [minute, setMinute] = useState<number | undefined>(value?.minutes);
+
+  const hourOptions = hour === undefined ? [] : minutesByHour.get(hour) ?? [];
+  const minuteValues = hourOptions.map((option) => option.time.minutes);
+  const currentMinute =
+    minute !== undefined && minuteValues.includes(minute) ? minute : minuteValues[0];
+
+  // Keep the hour valid when the options change
+  useEffect(() => {
+    if (hour === undefined || !minutesByHour.has(hour)) {
+      setHour(availableHours[0]);
+    }
+  }, [hour, minutesByHour, availableHours]);
+
+  const isPM = hour !== undefined && hour >= 12;
+
+  const chooseHour = (next: number | undefined) => {
+    if (next !== undefined) setHour(next);
+  };
+
+  const chooseMinute = (next: number | undefined) => {
+    if (next !== undefined) setMinute(next);
+  };
+
+  const confirm = () => {
+    if (stage === 'hours') {
+      if (hour !== undefined) setStage('minutes');
+      return;
+    }
+    const option = hourOptions.find((candidate) => candidate.time.minutes === currentMinute);
+    if (option) onSelect(option);
+  };
+
+  // In 12-hour mode the dial only shows the current half of the day
+  const dialHours =
+    hourCycle === 12
+      ? availableHours.filter((h) => h >= 12 === isPM)
+      : availableHours;
+
+  const stepValue = (direction: 1 | -1, toEnd = false) => {
+    const values = stage === 'hours' ? dialHours : minuteValues;
+    const current = stage === 'hours' ? hour : currentMinute;
+    if (values.length === 0) return;
+
+    const index = current === undefined ? -1 : values.indexOf(current);
+    const nextIndex = toEnd
+      ? direction > 0
+        ? values.length - 1
+        : 0
+      : Math.min(Math.max(index + direction, 0), values.length - 1);
+
+    if (stage === 'hours') {
+      chooseHour(values[nextIndex]);
+    } else {
+      chooseMinute(values[nextIndex]);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    switch (event.key) {
+      case 'ArrowUp':
+      case 'ArrowRight':
+        event.preventDefault();
+        stepValue(1);
+        break;
+      case 'ArrowDown':
+      case 'ArrowLeft':
+        event.preventDefault();
+        stepValue(-1);
+        break;
+      case 'Home':
+      case 'End':
+        event.preventDefault();
+        stepValue(event.key === 'End' ? 1 : -1, true);
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        confirm();
+        break;
+      case 'Backspace':
+        if (stage === 'minutes') {
+          event.preventDefault();
+          setStage('hours');
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        onCancel?.();
+        break;
+    }
+  };
+
+  // Map a pointer position to the closest available hour or minute
+  const updateFromPointer = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = dialRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+
+    const x = event.clientX - (rect.left + rect.width / 2);
+    const y = event.clientY - (rect.top + rect.height / 2);
+    const angle = ((Math.atan2(x, -y) * 180) / Math.PI + 360) % 360;
+
+    if (stage === 'hours') {
+      const position = Math.round(angle / 30) % 12;
+      const distance = Math.hypot(x, y) / (rect.width / 2);
+      const inner = hourCycle === 24 && distance < (OUTER_RADIUS + INNER_RADIUS) / 100;
+      const target =
+        hourCycle === 12
+          ? position + (isPM ? 12 : 0)
+          : inner
+            ? (position + 12) % 24
+            : position || 12;
+      chooseHour(getClosest(dialHours, target, 24));
+    } else {
+      chooseMinute(getClosest(minuteValues, Math.round(angle / 6) % 60, 60));
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    draggingRef.current = true;
+    dialRef.current?.setPointerCapture?.(event.pointerId);
+    dialRef.current?.focus();
+    updateFromPointer(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (draggingRef.current) updateFromPointer(event);
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!draggingRef.current) return;
+    draggingRef.current = false;
+    updateFromPointer(event);
+    confirm();
+  };
+
+  const togglePeriod = (pm: boolean) => {
+    if (hour === undefined || isPM === pm) return;
+    const halfHours = availableHours.filter((h) => h >= 12 === pm);
+    chooseHour(
+      halfHours.includes((hour + 12) % 24)
+        ? (hour + 12) % 24
+        : getClosest(halfHours, (hour + 12) % 24, 24)
+    );
+  };
+
+  const previewTime: TimeValue | null =
+    hour === undefined
+      ? null
+      : { hours: hour, minutes: stage === 'minutes' ? currentMinute ?? 0 : 0 };
+
+  // Hand angle and length for the current stage
+  const [handAngle, handRadius] =
+    stage === 'hours'
+      ? hour === undefined
+        ? [0, OUTER_RADIUS]
+        : (() => {
+            const [position, inner] = getHourPosition(hour, hourCycle);
+            return [position * 30, inner ? INNER_RADIUS : OUTER_RADIUS];
+          })()
+      : [(currentMinute ?? 0) * 6, OUTER_RADIUS];
+
+  const hourMarks =
+    hourCycle === 12
+      ? Array.from({ length: 12 }, (_, i) => (i === 0 ? 12 : i) % 12 + (isPM ? 12 : 0))
+      : Array.from({ length: 24 }, (_, i) => i);
+  const minuteMarks = Array.from({ length: 12 }, (_, i) => i * 5);
+
+  return (
+    <div className="timepicker__clock" data-testid="timepicker-clock">
+      {hourCycle === 12 && (
+        <div className="timepicker__clock-periods">
+          {[false, true].map((pm) => (
+            <button
+              key={pm ? 'pm' : 'am'}
+              type="button"
+              className={`timepicker__clock-period ${
+                isPM === pm ? 'timepicker__clock-period--active' : ''
+              }`.trim()}
+              aria-pressed={isPM === pm}
+              disabled={!availableHours.some((h) => h >= 12 === pm)}
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => togglePeriod(pm)}
+              data-testid={`timepicker-clock-${pm ? 'pm' : 'am'}`}
+            >
+              {locale
+                ? getDayPeriodNames(locale)[pm ? 1 : 0]
+                : formatTime({ hours: pm ? 12 : 0, minutes: 0 }, 'A')}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div
+        ref={dialRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={stage === 'hours' ? messages.hoursLabel : messages.minutesLabel}
+        aria-valuemin={stage === 'hours' ? (hourCycle === 12 ? 1 : 0) : 0}
+        aria-valuemax={stage === 'hours' ? (hourCycle === 12 ? 12 : 23) : 59}
+        aria-valuenow={
+          stage === 'hours'
+            ? hour === undefined
+              ? undefined
+              : hourCycle === 12
+                ? hour % 12 || 12
+                : hour
+            : currentMinute
+        }
+        aria-valuetext={previewTime ? formatValue(previewTime) : undefined}
+        className={`timepicker__clock-dial timepicker__clock-dial--${stage}`}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        data-testid="timepicker-clock-dial"
+      >
+        <span
+          className="timepicker__clock-hand"
+          style={{
+            height: `${handRadius}%`,
+            transform: `rotate(${handAngle}deg)`,
+          }}
+          aria-hidden="true"
+        />
+        {stage === 'hours'
+          ? hourMarks.map((markHour) => {
+              const [position, inner] = getHourPosition(markHour, hourCycle);
+              return (
+                <span
+                  key={markHour}
+                  className={`timepicker__clock-mark ${
+                    inner ? 'timepicker__clock-mark--inner' : ''
+                  } ${markHour === hour ? 'timepicker__clock-mark--selected' : ''} ${
+                    minutesByHour.has(markHour) ? '' : 'timepicker__clock-mark--disabled'
+                  }`
+                    .replace(/\s+/g, ' ')
+                    .trim()}
+                  style={toPosition(position * 30, inner ? INNER_RADIUS : OUTER_RADIUS)}
+                  aria-hidden="true"
+                >
+                  {hourCycle === 12 ? markHour % 12 || 12 : formatTime({ hours: markHour, minutes: 0 }, 'HH')}
+                </span>
+              );
+            })
+          : minuteMarks.map((markMinute) => (
+              <span
+                key={markMinute}
+                className={`timepicker__clock-mark ${
+                  markMinute === currentMinute ? 'timepicker__clock-mark--selected' : ''
+                } ${
+                  minuteValues.includes(markMinute) ? '' : 'timepicker__clock-mark--disabled'
+                }`
+                  .replace(/\s+/g, ' ')
+                  .trim()}
+                style={toPosition(markMinute * 6, OUTER_RADIUS)}
+                aria-hidden="true"
+              >
+                {formatTime({ hours: 0, minutes: markMinute }, 'mm')}
+              </span>
+            ))}
+      </div>
+    </div>
+  );
+}
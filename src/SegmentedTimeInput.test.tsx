@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SegmentedTimeInput, type SegmentedTimeInputProps } from './SegmentedTimeInput';
+import type { TimeValue } from './utils/time';
+
+function Controlled({
+  initial = null,
+  onChange,
+  ...props
+}: Partial<SegmentedTimeInputProps> & { initial?: TimeValue | null }) {
+  const [value, setValue] = useState<TimeValue | null>(initial);
+  return (
+    <SegmentedTimeInput
+      {...props}
+      value={value}
+      onChange={(time) => {
+        setValue(time);
+        onChange?.(time);
+      }}
+    />
+  );
+}
+
+const segment = (name: string) => screen.getByTestId(`timepicker-segment-${name}`);
+
+describe('SegmentedTimeInput', () => {
+  it('renders spin buttons for each segment', () => {
+    render(
+      <SegmentedTimeInput value={{ hours: 14, minutes: 30 }} onChange={vi.fn()} />
+    );
+
+    const spinbuttons = screen.getAllByRole('spinbutton');
+    expect(spinbuttons).toHaveLength(3);
+    expect(spinbuttons.map((el) => el.textContent)).toEqual(['02', '30', 'PM']);
+    expect(segment('hours')).toHaveAttribute('aria-valuenow', '2');
+    expect(segment('hours')).toHaveAttribute('aria-label', 'Hours');
+    expect(segment('period')).toHaveAttribute('aria-valuetext', 'PM');
+  });
+
+  it('omits the period segment for 24-hour clocks and adds seconds', () => {
+    render(
+      <SegmentedTimeInput
+        value={{ hours: 14, minutes: 30, seconds: 15 }}
+        onChange={vi.fn()}
+        hourCycle={24}
+        showSeconds
+        interval={1 / 60}
+      />
+    );
+
+    expect(screen.getAllByRole('spinbutton').map((el) => el.textContent)).toEqual([
+      '14',
+      '30',
+      '15',
+    ]);
+  });
+
+  it('steps the focused segment with the arrow keys', () => {
+    const onChange = vi.fn();
+    render(<Controlled initial={{ hours: 9, minutes: 0 }} onChange={onChange} />);
+
+    fireEvent.keyDown(segment('minutes'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 9, minutes: 30 });
+
+    fireEvent.keyDown(segment('hours'), { key: 'ArrowDown' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 8, minutes: 30 });
+
+    fireEvent.keyDown(segment('period'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 20, minutes: 30 });
+  });
+
+  it('stays within minTime and maxTime and skips disabled times', () => {
+    const onChange = vi.fn();
+    render(
+      <Controlled
+        initial={{ hours: 9, minutes: 0 }}
+        onChange={onChange}
+        minTime="9:00am"
+        maxTime="10:00am"
+        disabledTimes={['9:30am']}
+      />
+    );
+
+    fireEvent.keyDown(segment('minutes'), { key: 'ArrowDown' });
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(segment('minutes'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 10, minutes: 0 });
+
+    fireEvent.keyDown(segment('period'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('auto-advances after typing digits', () => {
+    const onChange = vi.fn();
+    render(<Controlled onChange={onChange} interval={1} />);
+
+    segment('hours').focus();
+    fireEvent.keyDown(segment('hours'), { key: '1' });
+    expect(segment('hours')).toHaveTextContent('01');
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(segment('hours'), { key: '1' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 11, minutes: 0 });
+    expect(segment('minutes')).toHaveFocus();
+
+    fireEvent.keyDown(segment('minutes'), { key: '4' });
+    fireEvent.keyDown(segment('minutes'), { key: '5' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 11, minutes: 45 });
+    expect(segment('period')).toHaveFocus();
+  });
+
+  it('completes the hour on a digit that cannot be followed', () => {
+    const onChange = vi.fn();
+    render(<Controlled onChange={onChange} />);
+
+    segment('hours').focus();
+    fireEvent.keyDown(segment('hours'), { key: '3' });
+
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 3, minutes: 0 });
+    expect(segment('minutes')).toHaveFocus();
+  });
+
+  it('keeps typed minutes as typed and steps back onto the interval', () => {
+    const onChange = vi.fn();
+    render(<Controlled initial={{ hours: 14, minutes: 0 }} onChange={onChange} />);
+
+    fireEvent.keyDown(segment('minutes'), { key: '4' });
+    fireEvent.keyDown(segment('minutes'), { key: '5' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 14, minutes: 45 });
+
+    fireEvent.keyDown(segment('minutes'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 15, minutes: 0 });
+
+    fireEvent.keyDown(segment('minutes'), { key: '1' });
+    fireEvent.keyDown(segment('minutes'), { key: '5' });
+    fireEvent.keyDown(segment('minutes'), { key: 'ArrowDown' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 15, minutes: 0 });
+  });
+
+  it('stays within an overnight range', () => {
+    const onChange = vi.fn();
+    render(
+      <Controlled
+        initial={{ hours: 23, minutes: 0 }}
+        onChange={onChange}
+        minTime="10:00pm"
+        maxTime="6:00am"
+        allowOvernight
+        hourCycle={24}
+      />
+    );
+
+    fireEvent.keyDown(segment('hours'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 0, minutes: 0 });
+
+    fireEvent.keyDown(segment('hours'), { key: '0' });
+    fireEvent.keyDown(segment('hours'), { key: '3' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 3, minutes: 0 });
+
+    // 8am is outside the range and closer to its end
+    fireEvent.keyDown(segment('hours'), { key: '0' });
+    fireEvent.keyDown(segment('hours'), { key: '8' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 6, minutes: 0 });
+
+    fireEvent.keyDown(segment('hours'), { key: 'ArrowUp' });
+    expect(onChange).toHaveBeenCalledTimes(3);
+    fireEvent.keyDown(segment('hours'), { key: 'ArrowDown' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 5, minutes: 0 });
+  });
+
+  it('toggles the period with "a" and "p"', () => {
+    const onChange = vi.fn();
+    render(<Controlled initial={{ hours: 9, minutes: 0 }} onChange={onChange} />);
+
+    fireEvent.keyDown(segment('minutes'), { key: 'p' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 21, minutes: 0 });
+
+    fireEvent.keyDown(segment('hours'), { key: 'p' });
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(segment('hours'), { key: 'a' });
+    expect(onChange).toHaveBeenLastCalledWith({ hours: 9, minutes: 0 });
+  });
+
+  it('clears the value with Backspace', () => {
+    const onChange = vi.fn();
+    render(<Controlled initial={{ hours: 9, minutes: 0 }} onChange={onChange} />);
+
+    fireEvent.keyDown(segment('hours'), { key: 'Backspace' });
+
+    expect(onChange).toHaveBeenCalledWith(null);
+    expect(segment('hours')).toHaveTextContent('--');
+  });
+
+  it('follows the locale\'s hour cycle and day-period names', () => {
+    const { rerender } = render(
+      <SegmentedTimeInput value={{ hours: 14, minutes: 30 }} onChange={vi.fn()} locale="de" />
+    );
+
+    expect(segment('hours')).toHaveTextContent('14');
+    expect(screen.queryByTestId('timepicker-segment-period')).not.toBeInTheDocument();
+
+    rerender(
+      <SegmentedTimeInput
+        value={{ hours: 14, minutes: 30 }}
+        onChange={vi.fn()}
+        locale="ja"
+        hourCycle={12}
+      />
+    );
+    expect(segment('period')).toHaveTextContent('午後');
+  });
+});
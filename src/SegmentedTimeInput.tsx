@@ -0,0 +1,440 @@
+import { useCallback, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import {
+  parseTime,
+  formatTime,
+  timeToSeconds,
+  secondsToTime,
+  isTimeDisabled,
+  type TimeValue,
+  type DisabledTimes,
+  type SnapMode,
+} from './utils/time';
+import {
+  getMessages,
+  getLocaleHourCycle,
+  getDayPeriodNames,
+  type TimePickerMessages,
+} from './utils/locale';
+
+type Segment = 'hours' | 'minutes' | 'seconds' | 'period';
+
+interface PendingDigits {
+  segment: Segment;
+  digits: string;
+}
+
+export interface SegmentedTimeInputProps {
+  /** Current time, or null when empty */
+  value: TimeValue | null;
+  /** Callback when a segment changes the time, or null when cleared */
+  onChange: (time: TimeValue | null) => void;
+  /** Minimum selectable time (default: "12:00am") */
+  minTime?: string;
+  /** Maximum selectable time (default: "11:59pm") */
+  maxTime?: string;
+  /** Step in minutes for the minute segment; times snap to this grid (default: 30) */
+  interval?: number;
+  /** Times skipped when stepping with the arrow keys */
+  disabledTimes?: DisabledTimes;
+  /** Treat a maxTime before minTime as a range past midnight (default: false) */
+  allowOvernight?: boolean;
+  /** Show a seconds segment (default: false) */
+  showSeconds?: boolean;
+  /** 12 shows an AM/PM segment, 24 doesn't (default: 12, or the locale's preference) */
+  hourCycle?: 12 | 24;
+  /** BCP 47 locale for the segment labels, AM/PM names and default hour cycle */
+  locale?: string;
+  /** Overrides for the locale's default strings */
+  messages?: Partial<TimePickerMessages>;
+  /** Show error state */
+  error?: boolean;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Id of the segment group */
+  id?: string;
+  /** Additional CSS class for the segment group */
+  className?: string;
+  /** Accessible label for the segment group */
+  'aria-label'?: string;
+  /** ID of element that labels the segment group */
+  'aria-labelledby'?: string;
+  /** ID of element that describes the segment group, e.g. an error message */
+  'aria-describedby'?: string;
+}
+
+const SECONDS_PER_HOUR = 60 * 60;
+const SECONDS_PER_HALF_DAY = 12 * SECONDS_PER_HOUR;
+const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR;
+
+/**
+ * Digits needed before a segment is complete, and the largest first digit
+ * that can still be followed by another one (e.g. "1" may become "12")
+ */
+function getDigitRules(segment: Segment, hourCycle: 12 | 24): [number, number] {
+  if (segment === 'hours') {
+    return hourCycle === 12 ? [12, 1] : [23, 2];
+  }
+  return [59, 5];
+}
+
+/**
+ * Hour, minute, optional second and AM/PM fields with spin button
+ * semantics, for fast keyboard entry without a list
+ */
+export function SegmentedTimeInput({
+  value,
+  onChange,
+  minTime = '12:00am',
+  maxTime = '11:59pm',
+  interval = 30,
+  disabledTimes,
+  allowOvernight = false,
+  showSeconds = false,
+  hourCycle: hourCycleProp,
+  locale,
+  messages,
+  error = false,
+  disabled = false,
+  id,
+  className = '',
+  'aria-label': ariaLabel,
+  'aria-labelledby': ariaLabelledBy,
+  'aria-describedby': ariaDescribedBy,
+}: SegmentedTimeInputProps) {
+  const hourCycle = hourCycleProp ?? (locale ? getLocaleHourCycle(locale) : 12);
+  const segmentRefs = useRef<Array<HTMLSpanElement | null>>([]);
+  // Digits typed into the focused segment that don't form a full value yet.
+  // Handlers read the ref, since focus moves (and blurs) within one event.
+  const [pending, setPending] = useState<PendingDigits | null>(null);
+  const pendingRef = useRef<PendingDigits | null>(null);
+
+  const updatePending = (next: PendingDigits | null) => {
+    pendingRef.current = next;
+    setPending(next);
+  };
+
+  const resolvedMessages = useMemo(
+    () => getMessages(locale, messages),
+    [locale, messages]
+  );
+
+  const segments = useMemo<Segment[]>(
+    () => [
+      'hours',
+      'minutes',
+      ...(showSeconds ? (['seconds'] as const) : []),
+      ...(hourCycle === 12 ? (['period'] as const) : []),
+    ],
+    [showSeconds, hourCycle]
+  );
+
+  const minSeconds = timeToSeconds(parseTime(minTime) ?? { hours: 0, minutes: 0 });
+  const maxSeconds = timeToSeconds(parseTime(maxTime) ?? { hours: 23, minutes: 59 });
+  const stepSeconds = Math.max(1, Math.round(interval * 60));
+  const isOvernight = allowOvernight && maxSeconds < minSeconds;
+  // Times are handled as seconds past minTime, so overnight ranges don't wrap
+  const rangeSeconds = Math.max(0, maxSeconds - minSeconds + (isOvernight ? SECONDS_PER_DAY : 0));
+
+  // Seconds past minTime; a time outside the range goes to its closer end
+  const toOffset = useCallback(
+    (time: TimeValue) => {
+      const offset = timeToSeconds(time) - minSeconds;
+      if (!isOvernight || offset >= 0) return offset;
+      const wrapped = offset + SECONDS_PER_DAY;
+      return wrapped <= rangeSeconds || wrapped - rangeSeconds < SECONDS_PER_DAY - wrapped
+        ? wrapped
+        : 0;
+    },
+    [minSeconds, isOvernight, rangeSeconds]
+  );
+
+  // Clamp an offset to the range and, for arrow-key steps, snap it onto the
+  // interval grid (anchored at minTime). Typed values are kept as typed.
+  const clampOffset = useCallback(
+    (offset: number, snap: SnapMode) => {
+      const clamped = Math.min(Math.max(offset, 0), rangeSeconds);
+      if (snap === 'none') return clamped;
+      const round = snap === 'floor' ? Math.floor : snap === 'ceil' ? Math.ceil : Math.round;
+      const snapped = round(clamped / stepSeconds) * stepSeconds;
+      return snapped > rangeSeconds ? snapped - stepSeconds : snapped;
+    },
+    [rangeSeconds, stepSeconds]
+  );
+
+  const fromOffset = useCallback(
+    (offset: number): TimeValue => {
+      const { seconds, ...time } = secondsToTime((minSeconds + offset) % SECONDS_PER_DAY);
+      return showSeconds ? { ...time, seconds } : time;
+    },
+    [minSeconds, showSeconds]
+  );
+
+  const emit = useCallback(
+    (time: TimeValue | null) => {
+      if (
+        time === value ||
+        (time && value && timeToSeconds(time) === timeToSeconds(value))
+      ) {
+        return;
+      }
+      onChange(time);
+    },
+    [value, onChange]
+  );
+
+  // Move by whole steps, skipping disabled times
+  const step = useCallback(
+    (segment: Segment, direction: 1 | -1) => {
+      if (!value) {
+        emit(fromOffset(clampOffset(direction > 0 ? 0 : rangeSeconds, 'nearest')));
+        return;
+      }
+
+      if (segment === 'period') {
+        const current = timeToSeconds(value);
+        const flipped = secondsToTime((current + SECONDS_PER_HALF_DAY) % SECONDS_PER_DAY);
+        emit(fromOffset(clampOffset(toOffset(flipped), 'nearest')));
+        return;
+      }
+
+      const delta =
+        segment === 'hours'
+          ? Math.max(SECONDS_PER_HOUR, stepSeconds)
+          : segment === 'minutes'
+            ? Math.max(60, stepSeconds)
+            : stepSeconds;
+
+      // A typed value may be off the grid; steps land on it without passing a whole step
+      let next = clampOffset(toOffset(value), 'none');
+      for (;;) {
+        const candidate = clampOffset(next + delta * direction, direction > 0 ? 'floor' : 'ceil');
+        if (candidate === next) return;
+        next = candidate;
+        if (!isTimeDisabled(fromOffset(next), disabledTimes)) break;
+      }
+      emit(fromOffset(next));
+    },
+    [value, emit, toOffset, clampOffset, fromOffset, rangeSeconds, stepSeconds, disabledTimes]
+  );
+
+  // Replace one field of the current time (hours in the segment's own cycle)
+  const setSegmentValue = useCallback(
+    (segment: Segment, fieldValue: number) => {
+      const base = value ?? secondsToTime(minSeconds);
+      let { hours, minutes } = base;
+      let seconds = base.seconds ?? 0;
+
+      if (segment === 'hours') {
+        hours =
+          hourCycle === 12 ? (fieldValue % 12) + (base.hours >= 12 ? 12 : 0) : fieldValue;
+      } else if (segment === 'minutes') {
+        minutes = fieldValue;
+      } else {
+        seconds = fieldValue;
+      }
+
+      emit(fromOffset(clampOffset(toOffset({ hours, minutes, seconds }), 'none')));
+    },
+    [value, minSeconds, hourCycle, emit, toOffset, clampOffset, fromOffset]
+  );
+
+  const setPeriod = useCallback(
+    (period: 'a' | 'p') => {
+      if (!value || (value.hours < 12) === (period === 'a')) return;
+      step('period', 1);
+    },
+    [value, step]
+  );
+
+  const focusSegment = (index: number) => {
+    segmentRefs.current[Math.min(Math.max(index, 0), segments.length - 1)]?.focus();
+  };
+
+  // Commit digits typed into a segment that was left before it was complete
+  const commitPending = () => {
+    const current = pendingRef.current;
+    if (current) {
+      updatePending(null);
+      setSegmentValue(current.segment, parseInt(current.digits, 10));
+    }
+  };
+
+  const handleDigit = (
+    segment: Segment,
+    index: number,
+    digit: string,
+    previous = pendingRef.current?.segment === segment ? pendingRef.current.digits : ''
+  ) => {
+    const [max, maxFirstDigit] = getDigitRules(segment, hourCycle);
+    const digits = previous + digit;
+    const number = parseInt(digits, 10);
+
+    if (digits.length === 1 && number <= maxFirstDigit) {
+      updatePending({ segment, digits });
+      return;
+    }
+
+    // "13" in the 12-hour segment starts over with "3"
+    if (number > max || (segment === 'hours' && hourCycle === 12 && number === 0)) {
+      updatePending(null);
+      if (digits.length > 1) handleDigit(segment, index, digit, '');
+      return;
+    }
+
+    updatePending(null);
+    setSegmentValue(segment, number);
+    focusSegment(index + 1);
+  };
+
+  const handleKeyDown = (
+    event: KeyboardEvent<HTMLSpanElement>,
+    segment: Segment,
+    index: number
+  ) => {
+    if (disabled) return;
+    const key = event.key.toLowerCase();
+
+    if (/^\d$/.test(key) && segment !== 'period') {
+      event.preventDefault();
+      handleDigit(segment, index, key);
+      return;
+    }
+
+    switch (key) {
+      case 'arrowup':
+      case 'arrowdown':
+        event.preventDefault();
+        updatePending(null);
+        step(segment, key === 'arrowup' ? 1 : -1);
+        break;
+
+      case 'arrowleft':
+      case 'arrowright':
+        event.preventDefault();
+        commitPending();
+        focusSegment(index + (key === 'arrowright' ? 1 : -1));
+        break;
+
+      case 'a':
+      case 'p':
+        if (hourCycle === 12) {
+          event.preventDefault();
+          commitPending();
+          setPeriod(key);
+        }
+        break;
+
+      case 'backspace':
+      case 'delete':
+        event.preventDefault();
+        if (pendingRef.current) {
+          updatePending(null);
+        } else {
+          emit(null);
+        }
+        break;
+    }
+  };
+
+  const getSegmentProps = (segment: Segment) => {
+    if (segment === 'period') {
+      return {
+        label: resolvedMessages.periodLabel,
+        text: value
+          ? locale
+            ? getDayPeriodNames(locale)[value.hours < 12 ? 0 : 1]
+            : formatTime(value, 'A')
+          : '--',
+        min: 0,
+        max: 1,
+        now: value ? (value.hours < 12 ? 0 : 1) : undefined,
+      };
+    }
+
+    const isPending = pending?.segment === segment;
+    const fieldValue =
+      segment === 'hours'
+        ? value && (hourCycle === 12 ? value.hours % 12 || 12 : value.hours)
+        : segment === 'minutes'
+          ? value?.minutes
+          : value && (value.seconds ?? 0);
+    const token =
+      segment === 'hours'
+        ? hourCycle === 12
+          ? 'hh'
+          : 'HH'
+        : segment === 'minutes'
+          ? 'mm'
+          : 'ss';
+
+    return {
+      label:
+        segment === 'hours'
+          ? resolvedMessages.hoursLabel
+          : segment === 'minutes'
+            ? resolvedMessages.minutesLabel
+            : resolvedMessages.secondsLabel,
+      text: isPending
+        ? pending.digits.padStart(2, '0')
+        : value
+          ? formatTime(value, token)
+          : '--',
+      min: segment === 'hours' ? (hourCycle === 12 ? 1 : 0) : 0,
+      max: getDigitRules(segment, hourCycle)[0],
+      now: fieldValue ?? undefined,
+    };
+  };
+
+  return (
+    <div
+      id={id}
+      role="group"
+      aria-label={ariaLabel}
+      aria-labelledby={ariaLabelledBy}
+      aria-describedby={ariaDescribedBy}
+      aria-invalid={error ? 'true' : undefined}
+      aria-disabled={disabled ? 'true' : undefined}
+      className={`timepicker__input timepicker__segments ${
+        error ? 'timepicker__input--error' : ''
+      } ${disabled ? 'timepicker__segments--disabled' : ''} ${className}`
+        .replace(/\s+/g, ' ')
+        .trim()}
+      data-testid="timepicker-segments"
+    >
+      {segments.map((segment, index) => {
+        const { label, text, min, max, now } = getSegmentProps(segment);
+
+        return (
+          <span key={segment} className="timepicker__segment-group">
+            {index > 0 && (
+              <span className="timepicker__segment-separator" aria-hidden="true">
+                {segment === 'period' ? ' ' : ':'}
+              </span>
+            )}
+            <span
+              ref={(node) => {
+                segmentRefs.current[index] = node;
+              }}
+              role="spinbutton"
+              tabIndex={disabled ? -1 : 0}
+              aria-label={label}
+              aria-valuemin={min}
+              aria-valuemax={max}
+              aria-valuenow={now}
+              aria-valuetext={value || pending?.segment === segment ? text : undefined}
+              aria-disabled={disabled ? 'true' : undefined}
+              className={`timepicker__segment ${
+                value ? '' : 'timepicker__segment--placeholder'
+              }`.trim()}
+              onKeyDown={(event) => handleKeyDown(event, segment, index)}
+              onBlur={commitPending}
+              data-testid={`timepicker-segment-${segment}`}
+            >
+              {text}
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+}
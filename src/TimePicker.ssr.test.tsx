@@ -0,0 +1,16 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { TimePicker } from './index';
+
+describe('TimePicker on the server', () => {
+  it('renders without layout effect warnings', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const html = renderToString(<TimePicker value="9:00am" onChange={() => {}} portal />);
+
+    expect(html).toContain('value="9:00am"');
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
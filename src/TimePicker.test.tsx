@@ -1,6 +1,18 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
-import { TimePicker } from './index';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRef } from 'react';
+import { render, screen, fireEvent, act, within, waitFor } from '@testing-library/react';
+import { Controller, useForm } from 'react-hook-form';
+import {
+  TimePicker,
+  generateTimeOptions,
+  mergeTimeOptions,
+  createTimeParser,
+  type TimePickerHandle,
+  type RecentTimesStorage,
+  type TimeValue,
+} from './index';
+import { SegmentedTimeInput } from './segmented';
+import { ClockFace } from './clock';
 
 describe('TimePicker', () => {
   const defaultProps = {
@@ -73,6 +85,94 @@ describe('TimePicker', () => {
       expect(screen.getByText('9:30am')).toBeInTheDocument();
       expect(screen.getByText('10:00am')).toBeInTheDocument();
     });
+
+    it('renders 24-hour options with hourCycle={24}', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          minTime="1:00pm"
+          maxTime="2:00pm"
+          interval={30}
+          hourCycle={24}
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('13:00')).toBeInTheDocument();
+      expect(screen.getByText('13:30')).toBeInTheDocument();
+      expect(screen.getByText('14:00')).toBeInTheDocument();
+    });
+
+    it('renders options using a custom format spec', () => {
+      const onChange = vi.fn();
+      render(
+        <TimePicker
+          {...defaultProps}
+          onChange={onChange}
+          minTime="9:00am"
+          maxTime="9:30am"
+          format="h:mm A"
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('9:30 AM'));
+
+      expect(onChange).toHaveBeenCalledWith('9:30 AM');
+    });
+
+    it('renders options with seconds when showSeconds is set', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          minTime="9:00am"
+          maxTime="9:01am"
+          interval={0.5}
+          showSeconds
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('9:00:00am')).toBeInTheDocument();
+      expect(screen.getByText('9:00:30am')).toBeInTheDocument();
+      expect(screen.getByText('9:01:00am')).toBeInTheDocument();
+    });
+
+    it('wraps options past midnight with allowOvernight', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          minTime="11:00pm"
+          maxTime="1:00am"
+          interval={60}
+          allowOvernight
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent(/^11:00pm$/);
+      expect(screen.getByTestId('timepicker-option-1')).toHaveTextContent('12:00am+1 day');
+      expect(screen.getByTestId('timepicker-option-2')).toHaveTextContent('1:00am+1 day');
+    });
+
+    it('marks the selected option regardless of its format', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          value="14:00"
+          minTime="1:00pm"
+          maxTime="2:00pm"
+          interval={60}
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('2:00pm')).toHaveClass('timepicker__option--selected');
+    });
   });
 
   describe('Keyboard Navigation', () => {
@@ -144,78 +244,2018 @@ describe('TimePicker', () => {
       
       expect(onChange).toHaveBeenCalledWith('9:00am');
     });
-  });
 
-  describe('Error Handling', () => {
-    it('shows error state when error prop is true', () => {
-      render(<TimePicker {...defaultProps} error />);
-      expect(screen.getByTestId('timepicker-input')).toHaveClass(
-        'timepicker__input--error'
-      );
-      expect(screen.getByTestId('timepicker-error')).toBeInTheDocument();
+    const isHighlighted = (index: number) =>
+      screen
+        .getByTestId(`timepicker-option-${index}`)
+        .classList.contains('timepicker__option--highlighted');
+
+    it('jumps to the first and last option with Home/End', () => {
+      render(<TimePicker {...defaultProps} minTime="9:00am" maxTime="11:00am" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'End' });
+      expect(isHighlighted(4)).toBe(true);
+
+      fireEvent.keyDown(input, { key: 'Home' });
+      expect(isHighlighted(0)).toBe(true);
     });
 
-    it('displays custom error message', () => {
+    it('skips disabled options with Home/End', () => {
       render(
         <TimePicker
           {...defaultProps}
-          error
-          errorMessage="Custom error message"
+          minTime="9:00am"
+          maxTime="11:00am"
+          disabledTimes={['9:00am', '11:00am']}
         />
       );
-      expect(screen.getByText('Custom error message')).toBeInTheDocument();
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'End' });
+      expect(isHighlighted(3)).toBe(true);
+
+      fireEvent.keyDown(input, { key: 'Home' });
+      expect(isHighlighted(1)).toBe(true);
     });
-  });
 
-  describe('Accessibility', () => {
-    it('has correct ARIA attributes', () => {
-      render(<TimePicker {...defaultProps} id="my-picker" />);
+    it('moves by an hour with PageDown/PageUp', () => {
+      render(
+        <TimePicker {...defaultProps} minTime="9:00am" maxTime="11:00am" interval={15} />
+      );
       const input = screen.getByTestId('timepicker-input');
-      
-      expect(input).toHaveAttribute('role', 'combobox');
-      expect(input).toHaveAttribute('aria-haspopup', 'listbox');
-      expect(input).toHaveAttribute('aria-expanded', 'false');
-      
+
       fireEvent.focus(input);
-      expect(input).toHaveAttribute('aria-expanded', 'true');
-      expect(input).toHaveAttribute('aria-controls', 'my-picker-listbox');
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expect(isHighlighted(4)).toBe(true);
+      expect(screen.getByTestId('timepicker-option-4')).toHaveTextContent('10:00am');
+
+      // Stops at the end of the list
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expect(isHighlighted(8)).toBe(true);
+
+      fireEvent.keyDown(input, { key: 'PageUp' });
+      expect(isHighlighted(4)).toBe(true);
     });
 
-    it('sets aria-invalid when error is true', () => {
-      render(<TimePicker {...defaultProps} error />);
-      expect(screen.getByTestId('timepicker-input')).toHaveAttribute(
-        'aria-invalid',
-        'true'
+    it('moves at least one option with PageDown when options are over an hour apart', () => {
+      render(
+        <TimePicker {...defaultProps} minTime="9:00am" maxTime="3:00pm" interval={90} />
       );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expect(isHighlighted(1)).toBe(true);
     });
 
-    it('supports aria-label', () => {
-      render(<TimePicker {...defaultProps} aria-label="Select meeting time" />);
-      expect(screen.getByTestId('timepicker-input')).toHaveAttribute(
-        'aria-label',
-        'Select meeting time'
+    it('opens without moving the highlight on Alt+ArrowDown', () => {
+      render(<TimePicker {...defaultProps} value="10:00am" minTime="9:00am" maxTime="11:00am" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown', altKey: true });
+      expect(screen.getByTestId('timepicker-dropdown')).toBeInTheDocument();
+      expect(isHighlighted(2)).toBe(true);
+
+      fireEvent.keyDown(input, { key: 'ArrowDown', altKey: true });
+      expect(isHighlighted(2)).toBe(true);
+
+      fireEvent.keyDown(input, { key: 'ArrowUp', altKey: true });
+      expect(screen.queryByTestId('timepicker-dropdown')).not.toBeInTheDocument();
+    });
+
+    it('highlights the current value when opened', () => {
+      render(<TimePicker {...defaultProps} value="10:30am" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      expect(isHighlighted(21)).toBe(true);
+      expect(input).toHaveAttribute(
+        'aria-activedescendant',
+        screen.getByTestId('timepicker-option-21').id
+      );
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(screen.getByTestId('timepicker-option-22')).toHaveTextContent('11:00am');
+      expect(isHighlighted(22)).toBe(true);
+    });
+
+    it('highlights the nearest option when the value is not in the list', () => {
+      render(<TimePicker {...defaultProps} value="10:20am" />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      expect(screen.getByTestId('timepicker-option-21')).toHaveTextContent('10:30am');
+      expect(isHighlighted(21)).toBe(true);
+    });
+
+    it('highlights nothing when opened without a value', () => {
+      render(<TimePicker {...defaultProps} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      expect(input).not.toHaveAttribute('aria-activedescendant');
+    });
+
+    it('restores the value from focus on Escape once closed', () => {
+      const onChange = vi.fn();
+      render(<TimePicker defaultValue="9:00am" onChange={onChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '10:00am' } });
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(input).toHaveValue('10:00am');
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(input).toHaveValue('9:00am');
+      expect(onChange).toHaveBeenLastCalledWith('9:00am');
+    });
+
+    it('restores the committed time on Escape once closed', () => {
+      const onTimeChange = vi.fn();
+      const { rerender } = render(
+        <TimePicker valueAsTime={{ hours: 9, minutes: 0 }} onTimeChange={onTimeChange} />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      act(() => input.focus());
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 9, minutes: 30 });
+      rerender(
+        <TimePicker valueAsTime={{ hours: 9, minutes: 30 }} onTimeChange={onTimeChange} />
       );
+
+      fireEvent.keyDown(input, { key: 'Escape' });
+      expect(input).toHaveValue('9:00am');
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 9, minutes: 0 });
     });
   });
 
-  describe('Filtering', () => {
-    it('filters options based on user input', () => {
+  describe('Custom Options', () => {
+    it('renders an explicit list of options', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          options={['9:15am', { value: '12:00pm', label: 'Noon' }, '4:45pm']}
+        />
+      );
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      const options = screen.getAllByRole('option');
+      expect(options.map((option) => option.textContent)).toEqual([
+        '9:15am',
+        'Noon',
+        '4:45pm',
+      ]);
+    });
+
+    it('emits the option value rather than its label', () => {
       const onChange = vi.fn();
       render(
         <TimePicker
           {...defaultProps}
           onChange={onChange}
-          minTime="9:00am"
-          maxTime="10:00am"
-          interval={30}
+          options={[{ value: '12:00pm', label: 'Noon' }]}
+        />
+      );
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('Noon'));
+
+      expect(onChange).toHaveBeenCalledWith('12:00pm');
+    });
+
+    it('formats string options like generated ones', () => {
+      render(<TimePicker {...defaultProps} hourCycle={24} options={['4:45pm']} />);
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('16:45')).toBeInTheDocument();
+    });
+
+    it('calls a generator with the picker context', () => {
+      const generator = vi.fn(({ format }) =>
+        mergeTimeOptions(
+          generateTimeOptions('9:00am', '9:30am', 15, format),
+          generateTimeOptions('1:00pm', '2:00pm', 30, format)
+        )
+      );
+      render(
+        <TimePicker {...defaultProps} hourCycle={24} interval={15} options={generator} />
+      );
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(generator).toHaveBeenCalledWith(
+        expect.objectContaining({ minTime: '12:00am', maxTime: '11:59pm', interval: 15 })
+      );
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+        '09:00',
+        '09:15',
+        '09:30',
+        '13:00',
+        '13:30',
+        '14:00',
+      ]);
+    });
+
+    it('filters options by label', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          value="noon"
+          options={['9:00am', { value: '12:00pm', label: 'Noon' }]}
         />
       );
-      
       const input = screen.getByTestId('timepicker-input');
       fireEvent.focus(input);
-      fireEvent.change(input, { target: { value: '9:3' } });
-      
-      expect(onChange).toHaveBeenCalledWith('9:3');
+      fireEvent.change(input, { target: { value: 'noo' } });
+
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+        'Noon',
+      ]);
+    });
+  });
+
+  describe('Disabled Times', () => {
+    const lunchProps = {
+      ...defaultProps,
+      minTime: '11:00am',
+      maxTime: '2:00pm',
+      interval: 60,
+      disabledTimes: [{ start: '12:00pm', end: '1:00pm' }],
+    };
+
+    it('marks disabled options with aria-disabled', () => {
+      render(<TimePicker {...lunchProps} />);
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('12:00pm')).toHaveAttribute('aria-disabled', 'true');
+      expect(screen.getByText('12:00pm')).toHaveClass('timepicker__option--disabled');
+      expect(screen.getByText('1:00pm')).not.toHaveAttribute('aria-disabled');
+    });
+
+    it('does not select disabled options on click', () => {
+      const onChange = vi.fn();
+      render(<TimePicker {...lunchProps} onChange={onChange} />);
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('12:00pm'));
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('skips disabled options with the keyboard', () => {
+      render(<TimePicker {...lunchProps} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(screen.getByText('11:00am')).toHaveClass('timepicker__option--highlighted');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expect(screen.getByText('1:00pm')).toHaveClass('timepicker__option--highlighted');
+
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+      expect(screen.getByText('11:00am')).toHaveClass('timepicker__option--highlighted');
+    });
+
+    it('accepts individual times and predicates', () => {
+      const { rerender } = render(
+        <TimePicker {...lunchProps} disabledTimes={['11:00am']} />
+      );
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      expect(screen.getByText('11:00am')).toHaveAttribute('aria-disabled', 'true');
+
+      rerender(
+        <TimePicker {...lunchProps} disabledTimes={(time) => time.hours === 14} />
+      );
+      expect(screen.getByText('2:00pm')).toHaveAttribute('aria-disabled', 'true');
+      expect(screen.getByText('11:00am')).not.toHaveAttribute('aria-disabled');
+    });
+
+    it('shows an error when a disabled time is typed', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          {...lunchProps}
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '12:30pm' } });
+
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+      expect(screen.getByText('This time is not available')).toBeInTheDocument();
+
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onTimeChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Snapping and Strict Mode', () => {
+    it('snaps typed times to the nearest slot on blur', () => {
+      const onChange = vi.fn();
+      render(<TimePicker value="2:37pm" onChange={onChange} interval={15} snap="nearest" />);
+
+      fireEvent.blur(screen.getByTestId('timepicker-input'));
+
+      expect(onChange).toHaveBeenCalledWith('2:30pm');
+    });
+
+    it('snaps on Enter using floor and ceil', () => {
+      const onTimeChange = vi.fn();
+      const { rerender } = render(
+        <TimePicker valueAsTime={null} onTimeChange={onTimeChange} interval={15} snap="ceil" />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '2:31pm' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 14, minutes: 45 });
+      expect(input).toHaveValue('2:45pm');
+
+      rerender(
+        <TimePicker valueAsTime={null} onTimeChange={onTimeChange} interval={15} snap="floor" />
+      );
+      fireEvent.change(input, { target: { value: '2:44pm' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 14, minutes: 30 });
+    });
+
+    it('does not snap past midnight or maxTime', () => {
+      const onChange = vi.fn();
+      const { rerender } = render(
+        <TimePicker value="11:55pm" onChange={onChange} interval={15} snap="ceil" />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.blur(input);
+      expect(onChange).toHaveBeenLastCalledWith('11:45pm');
+
+      rerender(<TimePicker value="11:53pm" onChange={onChange} interval={15} snap="nearest" />);
+      fireEvent.blur(input);
+      expect(onChange).toHaveBeenLastCalledWith('11:45pm');
+
+      rerender(
+        <TimePicker
+          value="4:40pm"
+          onChange={onChange}
+          interval={30}
+          maxTime="4:45pm"
+          snap="ceil"
+        />
+      );
+      fireEvent.blur(input);
+      expect(onChange).toHaveBeenLastCalledWith('4:30pm');
+    });
+
+    it('snaps into the next day for overnight ranges', () => {
+      const onChange = vi.fn();
+      render(
+        <TimePicker
+          value="11:55pm"
+          onChange={onChange}
+          minTime="10:00pm"
+          maxTime="2:00am"
+          allowOvernight
+          interval={15}
+          snap="ceil"
+        />
+      );
+
+      fireEvent.blur(screen.getByTestId('timepicker-input'));
+      expect(onChange).toHaveBeenLastCalledWith('12:00am');
+    });
+
+    it('anchors the grid at minTime', () => {
+      const onChange = vi.fn();
+      render(
+        <TimePicker
+          value="9:22am"
+          onChange={onChange}
+          minTime="9:10am"
+          interval={15}
+          snap="nearest"
+        />
+      );
+
+      fireEvent.blur(screen.getByTestId('timepicker-input'));
+
+      expect(onChange).toHaveBeenCalledWith('9:25am');
+    });
+
+    it('keeps typed times as-is without snap', () => {
+      const onChange = vi.fn();
+      render(<TimePicker value="2:37pm" onChange={onChange} interval={15} />);
+
+      fireEvent.blur(screen.getByTestId('timepicker-input'));
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('flags off-grid times in strict mode', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker valueAsTime={null} onTimeChange={onTimeChange} interval={15} strict />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '2:37pm' } });
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+
+      fireEvent.blur(input);
+      expect(onTimeChange).not.toHaveBeenCalled();
+    });
+
+    it('flags out-of-range times in strict mode', () => {
+      render(
+        <TimePicker valueAsTime={null} minTime="9:00am" maxTime="5:00pm" strict />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '6:00pm' } });
+
+      expect(screen.getByTestId('timepicker-error')).toBeInTheDocument();
+    });
+
+    it('accepts off-grid times that snap into place in strict mode', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+          interval={15}
+          snap="nearest"
+          strict
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '2:37pm' } });
+      expect(input).not.toHaveAttribute('aria-invalid');
+
+      fireEvent.blur(input);
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 14, minutes: 30 });
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('shows error state when error prop is true', () => {
+      render(<TimePicker {...defaultProps} error />);
+      expect(screen.getByTestId('timepicker-input')).toHaveClass(
+        'timepicker__input--error'
+      );
+      expect(screen.getByTestId('timepicker-error')).toBeInTheDocument();
+    });
+
+    it('displays custom error message', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          error
+          errorMessage="Custom error message"
+        />
+      );
+      expect(screen.getByText('Custom error message')).toBeInTheDocument();
+    });
+  });
+
+  describe('Accessibility', () => {
+    it('has correct ARIA attributes', () => {
+      render(<TimePicker {...defaultProps} id="my-picker" />);
+      const input = screen.getByTestId('timepicker-input');
+      
+      expect(input).toHaveAttribute('role', 'combobox');
+      expect(input).toHaveAttribute('aria-haspopup', 'listbox');
+      expect(input).toHaveAttribute('aria-expanded', 'false');
+      
+      fireEvent.focus(input);
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(input).toHaveAttribute('aria-controls', 'my-picker-listbox');
+    });
+
+    it('sets aria-invalid when error is true', () => {
+      render(<TimePicker {...defaultProps} error />);
+      expect(screen.getByTestId('timepicker-input')).toHaveAttribute(
+        'aria-invalid',
+        'true'
+      );
+    });
+
+    it('supports aria-label', () => {
+      render(<TimePicker {...defaultProps} aria-label="Select meeting time" />);
+      expect(screen.getByTestId('timepicker-input')).toHaveAttribute(
+        'aria-label',
+        'Select meeting time'
+      );
+    });
+  });
+
+  describe('Structured Value', () => {
+    it('displays valueAsTime using the current format', () => {
+      render(<TimePicker valueAsTime={{ hours: 14, minutes: 30 }} hourCycle={24} />);
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('14:30');
+    });
+
+    it('emits a TimeValue when an option is selected', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+          minTime="9:00am"
+          maxTime="9:30am"
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('9:30am'));
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 9, minutes: 30 });
+    });
+
+    it('does not emit while typing incomplete times', () => {
+      const onTimeChange = vi.fn();
+      render(<TimePicker valueAsTime={null} onTimeChange={onTimeChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '2:3' } });
+
+      expect(input).toHaveValue('2:3');
+      expect(onTimeChange).not.toHaveBeenCalled();
+    });
+
+    it('commits a typed time on Enter', () => {
+      const onTimeChange = vi.fn();
+      render(<TimePicker valueAsTime={null} onTimeChange={onTimeChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '2:45pm' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 14, minutes: 45 });
+    });
+
+    it('commits a typed time on blur and ignores invalid text', () => {
+      const onTimeChange = vi.fn();
+      render(<TimePicker valueAsTime={null} onTimeChange={onTimeChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '2:3' } });
+      fireEvent.blur(input);
+      expect(onTimeChange).not.toHaveBeenCalled();
+
+      fireEvent.change(input, { target: { value: '14:30' } });
+      fireEvent.blur(input);
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 14, minutes: 30 });
+    });
+
+    it('emits null when the input is cleared', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={{ hours: 9, minutes: 0 }}
+          onTimeChange={onTimeChange}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '' } });
+      fireEvent.blur(input);
+
+      expect(onTimeChange).toHaveBeenCalledWith(null);
+    });
+
+    it('does not emit when the field is left unedited', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={{ hours: 10, minutes: 7, seconds: 42 }}
+          onTimeChange={onTimeChange}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.blur(input);
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'Escape' });
+      fireEvent.keyDown(input, { key: 'Escape' });
+      fireEvent.blur(input);
+
+      expect(input).toHaveValue('10:07am');
+      expect(onTimeChange).not.toHaveBeenCalled();
+    });
+
+    it('commits a new time on the minute without showSeconds', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={{ hours: 10, minutes: 7, seconds: 42 }}
+          onTimeChange={onTimeChange}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.mouseDown(screen.getByText('10:30am'));
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 10, minutes: 30 });
+
+      fireEvent.change(input, { target: { value: '11:30am' } });
+      fireEvent.blur(input);
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 11, minutes: 30 });
+    });
+
+    it('keeps seconds when committing with showSeconds', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker valueAsTime={null} onTimeChange={onTimeChange} showSeconds />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '2:30:15pm' } });
+      fireEvent.blur(input);
+
+      expect(onTimeChange).toHaveBeenCalledWith({
+        hours: 14,
+        minutes: 30,
+        seconds: 15,
+      });
+      expect(input).toHaveValue('2:30:15pm');
+    });
+
+    it('updates the draft when valueAsTime changes', () => {
+      const { rerender } = render(
+        <TimePicker valueAsTime={{ hours: 9, minutes: 0 }} />
+      );
+      rerender(<TimePicker valueAsTime={{ hours: 17, minutes: 15 }} />);
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('5:15pm');
+    });
+  });
+
+  describe('Localization', () => {
+    it('renders options with Intl for the given locale', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          locale="ja"
+          hourCycle={12}
+          minTime="1:00pm"
+          maxTime="1:30pm"
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('午後1:00')).toBeInTheDocument();
+      expect(screen.getByText('午後1:30')).toBeInTheDocument();
+    });
+
+    it('uses the locale hour cycle by default', () => {
+      render(
+        <TimePicker {...defaultProps} locale="de" minTime="1:00pm" maxTime="1:00pm" />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByText('13:00')).toBeInTheDocument();
+    });
+
+    it('parses localized input', () => {
+      const onTimeChange = vi.fn();
+      render(<TimePicker valueAsTime={null} onTimeChange={onTimeChange} locale="de" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '3:30 nachm.' } });
+      fireEvent.blur(input);
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 15, minutes: 30 });
+      expect(input).toHaveValue('15:30');
+    });
+
+    it('localizes default strings', () => {
+      render(<TimePicker {...defaultProps} value="abc" locale="de" error />);
+      expect(screen.getByPlaceholderText('Uhrzeit wählen')).toBeInTheDocument();
+      expect(screen.getByText('Bitte geben Sie eine gültige Uhrzeit ein')).toBeInTheDocument();
+    });
+
+    it('lets messages and props override the defaults', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          locale="de"
+          error
+          messages={{ placeholder: 'Zeit' }}
+          errorMessage="Ungültig"
+        />
+      );
+      expect(screen.getByPlaceholderText('Zeit')).toBeInTheDocument();
+      expect(screen.getByText('Ungültig')).toBeInTheDocument();
+    });
+  });
+
+  describe('Filtering', () => {
+    it('filters options based on user input', () => {
+      const onChange = vi.fn();
+      render(
+        <TimePicker
+          {...defaultProps}
+          onChange={onChange}
+          minTime="9:00am"
+          maxTime="10:00am"
+          interval={30}
+        />
+      );
+      
+      const input = screen.getByTestId('timepicker-input');
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '9:3' } });
+      
+      expect(onChange).toHaveBeenCalledWith('9:3');
+    });
+
+    it('matches shorthand input against the options', () => {
+      render(<TimePicker valueAsTime={null} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '230p' } });
+
+      expect(screen.getAllByRole('option')).toHaveLength(1);
+      expect(screen.getByRole('option')).toHaveTextContent('2:30pm');
+    });
+
+    it('commits shorthand input as a time', () => {
+      const onTimeChange = vi.fn();
+      render(<TimePicker valueAsTime={null} onTimeChange={onTimeChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '14h30' } });
+      fireEvent.blur(input);
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 14, minutes: 30 });
+    });
+
+    it('uses a custom parser for typed text', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+          parser={createTimeParser({ aliases: { lunch: '12:30pm' } })}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'lunch' } });
+
+      expect(screen.getByRole('option')).toHaveTextContent('12:30pm');
+
+      fireEvent.blur(input);
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 12, minutes: 30 });
+    });
+  });
+
+  describe('Render Slots', () => {
+    it('renders custom option content with its state', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          value="9:30am"
+          minTime="9:00am"
+          maxTime="10:00am"
+          disabledTimes={['10:00am']}
+          renderOption={(option, { selected, disabled }) => (
+            <span>
+              {option.value}
+              {selected && ' (current)'}
+              {disabled && ' (booked)'}
+            </span>
+          )}
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      const options = screen.getAllByRole('option');
+
+      expect(options[1]).toHaveTextContent('9:30am (current)');
+      expect(options[2]).toHaveTextContent('10:00am (booked)');
+      expect(options[2]).toHaveAttribute('aria-disabled', 'true');
+    });
+
+    it('renders a custom input with the combobox props', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          aria-label="Start"
+          renderInput={(props) => (
+            <label className="field">
+              <input {...props} data-custom="true" />
+            </label>
+          )}
+        />
+      );
+
+      const input = screen.getByRole('combobox', { name: 'Start' });
+      expect(input).toHaveAttribute('data-custom', 'true');
+
+      fireEvent.focus(input);
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(screen.getByRole('listbox')).toBeInTheDocument();
+    });
+
+    it('renders an empty state when nothing matches', () => {
+      const { rerender } = render(<TimePicker valueAsTime={null} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'xyz' } });
+      expect(screen.queryByTestId('timepicker-dropdown')).not.toBeInTheDocument();
+
+      rerender(
+        <TimePicker
+          valueAsTime={null}
+          renderEmpty={(text) => `No times match "${text}"`}
+        />
+      );
+
+      expect(screen.getByTestId('timepicker-empty')).toHaveTextContent(
+        'No times match "xyz"'
+      );
+      expect(screen.queryAllByRole('option')).toHaveLength(0);
+    });
+
+    it('renders a footer below the options', () => {
+      render(
+        <TimePicker
+          {...defaultProps}
+          minTime="9:00am"
+          maxTime="10:00am"
+          renderFooter={() => 'All times in UTC'}
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByTestId('timepicker-footer')).toHaveTextContent('All times in UTC');
+      expect(screen.getAllByRole('option')).toHaveLength(3);
+    });
+  });
+
+  describe('Forms', () => {
+    it('works uncontrolled with defaultValue', () => {
+      const onChange = vi.fn();
+      render(<TimePicker defaultValue="9:00am" onChange={onChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      expect(input).toHaveValue('9:00am');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '2:30pm' } });
+
+      expect(input).toHaveValue('2:30pm');
+      expect(onChange).toHaveBeenCalledWith('2:30pm');
+    });
+
+    it('submits a normalized value under name', () => {
+      const { container } = render(
+        <form>
+          <TimePicker name="start" defaultValue="2:30pm" />
+        </form>
+      );
+      const form = container.querySelector('form')!;
+      const input = screen.getByTestId('timepicker-input');
+
+      expect(input).not.toHaveAttribute('name');
+      expect(new FormData(form).get('start')).toBe('14:30');
+
+      fireEvent.change(input, { target: { value: 'later' } });
+      expect(new FormData(form).get('start')).toBe('');
+    });
+
+    it('submits seconds when shown', () => {
+      render(
+        <TimePicker
+          name="at"
+          valueAsTime={{ hours: 9, minutes: 5, seconds: 7 }}
+          showSeconds
+        />
+      );
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('09:05:07');
+    });
+
+    it('restores the default value when the form is reset', () => {
+      const { container } = render(
+        <form>
+          <TimePicker name="start" defaultValue="9:00am" />
+        </form>
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '3:00pm' } });
+      expect(input).toHaveValue('3:00pm');
+
+      fireEvent.reset(container.querySelector('form')!);
+
+      expect(input).toHaveValue('9:00am');
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('09:00');
+    });
+
+    it('reports required and invalid times through constraint validation', () => {
+      const { container } = render(
+        <form>
+          <TimePicker name="start" required />
+        </form>
+      );
+      const form = container.querySelector('form')!;
+      const input = screen.getByTestId('timepicker-input') as HTMLInputElement;
+
+      expect(input).toBeRequired();
+      expect(form.checkValidity()).toBe(false);
+      expect(input.validationMessage).toBe('Please select a time');
+
+      fireEvent.change(input, { target: { value: 'later' } });
+      expect(input.validationMessage).toBe('Please enter a valid time');
+
+      fireEvent.change(input, { target: { value: '2:30pm' } });
+      expect(form.checkValidity()).toBe(true);
+    });
+  });
+
+  describe('react-hook-form', () => {
+    function ControllerForm({ onValid }: { onValid: (data: { start: TimeValue | null }) => void }) {
+      const { control, handleSubmit } = useForm<{ start: TimeValue | null }>({
+        defaultValues: { start: null },
+      });
+      return (
+        <form onSubmit={handleSubmit(onValid)}>
+          <Controller
+            control={control}
+            name="start"
+            rules={{ required: true }}
+            render={({ field }) => (
+              <TimePicker
+                ref={field.ref}
+                name={field.name}
+                valueAsTime={field.value}
+                onTimeChange={field.onChange}
+                onBlur={field.onBlur}
+              />
+            )}
+          />
+          <button type="submit">Save</button>
+        </form>
+      );
+    }
+
+    it('works through a Controller', async () => {
+      const onValid = vi.fn();
+      render(<ControllerForm onValid={onValid} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.submit(screen.getByText('Save'));
+      await waitFor(() => expect(input).toHaveFocus());
+      expect(onValid).not.toHaveBeenCalled();
+
+      fireEvent.mouseDown(screen.getByText('9:30am'));
+      fireEvent.submit(screen.getByText('Save'));
+
+      await waitFor(() =>
+        expect(onValid).toHaveBeenCalledWith({ start: { hours: 9, minutes: 30 } }, expect.anything())
+      );
+    });
+  });
+
+  describe('Imperative Handle', () => {
+    it('opens, closes and exposes the input', () => {
+      const ref = createRef<TimePickerHandle>();
+      render(<TimePicker {...defaultProps} ref={ref} />);
+
+      act(() => ref.current!.open());
+      expect(screen.getByTestId('timepicker-dropdown')).toBeInTheDocument();
+
+      act(() => ref.current!.close());
+      expect(screen.queryByTestId('timepicker-dropdown')).not.toBeInTheDocument();
+
+      expect(ref.current!.getInput()).toBe(screen.getByTestId('timepicker-input'));
+      act(() => ref.current!.focus());
+      expect(screen.getByTestId('timepicker-input')).toHaveFocus();
+    });
+
+    it('selects and clears times', () => {
+      const ref = createRef<TimePickerHandle>();
+      const onTimeChange = vi.fn();
+      const { rerender } = render(
+        <TimePicker
+          ref={ref}
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+          disabledTimes={['12:00pm']}
+        />
+      );
+
+      let accepted = false;
+      act(() => {
+        accepted = ref.current!.selectTime({ hours: 14, minutes: 30 });
+      });
+      expect(accepted).toBe(true);
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 14, minutes: 30 });
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('2:30pm');
+
+      act(() => {
+        accepted = ref.current!.selectTime('noon');
+      });
+      expect(accepted).toBe(false);
+      expect(onTimeChange).toHaveBeenCalledTimes(1);
+
+      rerender(
+        <TimePicker
+          ref={ref}
+          valueAsTime={{ hours: 14, minutes: 30 }}
+          onTimeChange={onTimeChange}
+          disabledTimes={['12:00pm']}
+        />
+      );
+      act(() => ref.current!.clear());
+      expect(onTimeChange).toHaveBeenLastCalledWith(null);
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('');
+    });
+
+    it('scrolls to the closest option', () => {
+      const ref = createRef<TimePickerHandle>();
+      render(<TimePicker {...defaultProps} ref={ref} />);
+
+      act(() => ref.current!.scrollToTime('2:40pm'));
+
+      const input = screen.getByTestId('timepicker-input');
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(screen.getByRole('option', { selected: true })).toHaveTextContent('2:30pm');
+    });
+  });
+
+  describe('Virtualization', () => {
+    it('keeps the rendered options bounded for long lists', () => {
+      render(<TimePicker {...defaultProps} interval={1} virtualize />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      const options = screen.getAllByRole('option');
+
+      expect(options.length).toBeLessThanOrEqual(20);
+      expect(options[0]).toHaveAttribute('aria-setsize', '1440');
+      expect(options[0]).toHaveAttribute('aria-posinset', '1');
+    });
+
+    it('renders the highlighted option so aria-activedescendant stays valid', () => {
+      render(<TimePicker {...defaultProps} interval={1} virtualize />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+
+      const activeId = input.getAttribute('aria-activedescendant');
+      expect(activeId).toBe(screen.getByTestId('timepicker-option-1439').id);
+      expect(document.getElementById(activeId!)).toHaveTextContent('11:59pm');
+      expect(screen.getAllByRole('option').length).toBeLessThanOrEqual(20);
+    });
+
+    it('renders the options for the scroll position', () => {
+      render(<TimePicker {...defaultProps} interval={1} virtualize itemHeight={30} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      const listbox = screen.getByRole('listbox');
+      fireEvent.scroll(listbox, { target: { scrollTop: 30 * 600 } });
+
+      expect(screen.getByTestId('timepicker-option-600')).toHaveTextContent('10:00am');
+      expect(screen.queryByTestId('timepicker-option-0')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Portal', () => {
+    it('renders the dropdown into document.body', () => {
+      render(
+        <div style={{ overflow: 'hidden' }} data-testid="clipping-parent">
+          <TimePicker {...defaultProps} portal />
+        </div>
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      const listbox = screen.getByRole('listbox');
+
+      expect(screen.getByTestId('clipping-parent')).not.toContainElement(listbox);
+      expect(screen.getByTestId('timepicker-portal').parentElement).toBe(document.body);
+      expect(screen.getByTestId('timepicker-input')).toHaveAttribute(
+        'aria-controls',
+        listbox.id
+      );
+    });
+
+    it('renders into a given container', () => {
+      const container = document.createElement('div');
+      document.body.appendChild(container);
+      render(<TimePicker {...defaultProps} portal={container} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(container).toContainElement(screen.getByRole('listbox'));
+      container.remove();
+    });
+
+    it('treats the portalled list as inside the picker', () => {
+      const onChange = vi.fn();
+      render(<TimePicker {...defaultProps} onChange={onChange} portal />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByRole('listbox'));
+      expect(screen.getByRole('listbox')).toBeInTheDocument();
+
+      fireEvent.mouseDown(screen.getByText('2:30pm'));
+      expect(onChange).toHaveBeenCalledWith('2:30pm');
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(document.body);
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    });
+
+    it('positions the dropdown next to the input', () => {
+      render(<TimePicker {...defaultProps} portal />);
+      const input = screen.getByTestId('timepicker-input');
+      input.getBoundingClientRect = () =>
+        ({ top: 100, left: 20, width: 180, height: 40 }) as DOMRect;
+
+      fireEvent.focus(input);
+
+      const portal = screen.getByTestId('timepicker-portal');
+      expect(portal).toHaveStyle({ top: '144px', left: '20px', width: '180px' });
+      expect(portal).toHaveAttribute('data-placement', 'bottom');
+    });
+  });
+
+  describe('Segmented Mode', () => {
+    it('renders spin buttons instead of a combobox', () => {
+      render(
+        <TimePicker
+          mode={SegmentedTimeInput}
+          valueAsTime={{ hours: 14, minutes: 30 }}
+          aria-label="Start time"
+        />
+      );
+
+      expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+      expect(screen.getByRole('group', { name: 'Start time' })).toBeInTheDocument();
+      expect(screen.getAllByRole('spinbutton')).toHaveLength(3);
+    });
+
+    it('commits segment changes through onTimeChange', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          mode={SegmentedTimeInput}
+          valueAsTime={{ hours: 9, minutes: 0 }}
+          onTimeChange={onTimeChange}
+          interval={15}
+        />
+      );
+
+      fireEvent.keyDown(screen.getByTestId('timepicker-segment-minutes'), {
+        key: 'ArrowUp',
+      });
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 9, minutes: 15 });
+    });
+
+    it('reports required and invalid times through constraint validation', () => {
+      const { container } = render(
+        <form>
+          <TimePicker mode={SegmentedTimeInput} name="start" required />
+        </form>
+      );
+      const form = container.querySelector('form')!;
+
+      expect(form.checkValidity()).toBe(false);
+      expect(
+        (screen.getByTestId('timepicker-validity-input') as HTMLInputElement).validationMessage
+      ).toBe('Please select a time');
+
+      fireEvent.keyDown(screen.getByTestId('timepicker-segment-hours'), { key: 'ArrowUp' });
+      expect(form.checkValidity()).toBe(true);
+    });
+
+    it('steps through overnight ranges', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          mode={SegmentedTimeInput}
+          valueAsTime={{ hours: 23, minutes: 30 }}
+          onTimeChange={onTimeChange}
+          minTime="10:00pm"
+          maxTime="6:00am"
+          allowOvernight
+        />
+      );
+
+      fireEvent.keyDown(screen.getByTestId('timepicker-segment-minutes'), {
+        key: 'ArrowUp',
+      });
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 0, minutes: 0 });
+    });
+
+    it('emits formatted text in string mode and submits the form value', () => {
+      const onChange = vi.fn();
+      render(
+        <TimePicker
+          mode={SegmentedTimeInput}
+          defaultValue="9:00am"
+          onChange={onChange}
+          name="start"
+        />
+      );
+
+      fireEvent.keyDown(screen.getByTestId('timepicker-segment-period'), { key: 'p' });
+
+      expect(onChange).toHaveBeenCalledWith('9:00pm');
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('21:00');
+    });
+
+    it('uses the hour cycle of the format or locale', () => {
+      const { rerender } = render(
+        <TimePicker mode={SegmentedTimeInput} format="HH:mm" defaultValue="14:30" />
+      );
+
+      expect(screen.getByTestId('timepicker-segment-hours')).toHaveTextContent('14');
+      expect(screen.queryByTestId('timepicker-segment-period')).not.toBeInTheDocument();
+
+      rerender(<TimePicker mode={SegmentedTimeInput} locale="de" defaultValue="14:30" />);
+      expect(screen.getByTestId('timepicker-segment-hours')).toHaveTextContent('14');
+      expect(screen.queryByTestId('timepicker-segment-period')).not.toBeInTheDocument();
+    });
+
+    it('restores defaultValue when the form is reset', () => {
+      render(
+        <form data-testid="form">
+          <TimePicker mode={SegmentedTimeInput} defaultValue="9:00am" name="start" />
+        </form>
+      );
+
+      fireEvent.keyDown(screen.getByTestId('timepicker-segment-period'), { key: 'p' });
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('21:00');
+
+      fireEvent.reset(screen.getByTestId('form'));
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('09:00');
+      expect(screen.getByTestId('timepicker-segment-period')).toHaveTextContent('AM');
+    });
+  });
+
+  describe('Clock Variant', () => {
+    it('opens a dial dialog instead of the option list', () => {
+      render(<TimePicker variant={ClockFace} valueAsTime={{ hours: 14, minutes: 30 }} />);
+
+      const input = screen.getByRole('combobox');
+      fireEvent.focus(input);
+
+      expect(input).toHaveAttribute('aria-haspopup', 'dialog');
+      expect(screen.getByRole('dialog')).toHaveAttribute('id', input.getAttribute('aria-controls'));
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(screen.getByRole('slider')).toHaveAttribute('aria-valuetext', '2:00pm');
+    });
+
+    it('moves focus to the dial with ArrowDown', () => {
+      render(<TimePicker variant={ClockFace} />);
+
+      const input = screen.getByRole('combobox');
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+      expect(screen.getByRole('slider')).toHaveFocus();
+    });
+
+    it('commits the picked time and returns focus to the closed input', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          variant={ClockFace}
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+          minTime="9:00am"
+          maxTime="5:00pm"
+          interval={15}
+        />
+      );
+
+      const input = screen.getByRole('combobox');
+      act(() => input.focus());
+      const slider = screen.getByRole('slider');
+      act(() => slider.focus());
+
+      fireEvent.keyDown(slider, { key: 'ArrowUp' });
+      fireEvent.keyDown(slider, { key: 'Enter' });
+      fireEvent.keyDown(slider, { key: 'ArrowUp' });
+      fireEvent.keyDown(slider, { key: 'Enter' });
+
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 10, minutes: 15 });
+      expect(input).toHaveFocus();
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('closes on Escape without changing the value', () => {
+      const onChange = vi.fn();
+      render(<TimePicker variant={ClockFace} value="9:00am" onChange={onChange} />);
+
+      const input = screen.getByRole('combobox');
+      act(() => input.focus());
+      const slider = screen.getByRole('slider');
+      act(() => slider.focus());
+      fireEvent.keyDown(slider, { key: 'Escape' });
+
+      expect(onChange).not.toHaveBeenCalled();
+      expect(input).toHaveFocus();
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('uses the same hour cycle as the input', () => {
+      render(<TimePicker variant={ClockFace} locale="de" valueAsTime={{ hours: 14, minutes: 30 }} />);
+
+      const input = screen.getByRole('combobox');
+      fireEvent.focus(input);
+
+      expect(input).toHaveValue('14:30');
+      expect(screen.getByRole('slider')).toHaveAttribute('aria-valuemax', '23');
+      expect(screen.getByRole('slider')).toHaveAttribute('aria-valuenow', '14');
+      expect(screen.queryByTestId('timepicker-clock-pm')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Announcements', () => {
+    const status = () => screen.getByRole('status');
+
+    it('renders an empty polite live region', () => {
+      render(<TimePicker {...defaultProps} />);
+
+      expect(status()).toHaveAttribute('aria-live', 'polite');
+      expect(status()).toBeEmptyDOMElement();
+    });
+
+    it('announces how many times match while typing', () => {
+      render(<TimePicker valueAsTime={null} minTime="9:00am" maxTime="5:00pm" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      expect(status()).toBeEmptyDOMElement();
+
+      fireEvent.change(input, { target: { value: '1' } });
+      expect(status()).toHaveTextContent(
+        `${screen.getAllByRole('option').length} times available`
+      );
+
+      fireEvent.change(input, { target: { value: '10:3' } });
+      expect(status()).toHaveTextContent('1 time available');
+    });
+
+    it('does not count disabled times as available', () => {
+      render(
+        <TimePicker
+          valueAsTime={null}
+          minTime="9:00am"
+          maxTime="10:00am"
+          disabledTimes={['9:30am']}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '9' } });
+      expect(screen.getAllByRole('option')).toHaveLength(2);
+      expect(status()).toHaveTextContent('1 time available');
+    });
+
+    it('announces when nothing matches', () => {
+      render(<TimePicker valueAsTime={null} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'xyz' } });
+      expect(status()).toHaveTextContent('No matching times');
+    });
+
+    it('announces the selected time', () => {
+      render(<TimePicker {...defaultProps} minTime="2:00pm" maxTime="3:00pm" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.mouseDown(screen.getByText('2:30pm'));
+      expect(status()).toHaveTextContent('2:30pm selected');
+    });
+
+    it('uses localized and custom messages', () => {
+      const { rerender } = render(<TimePicker valueAsTime={null} locale="de" />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: 'xyz' } });
+      expect(status()).toHaveTextContent('Keine passenden Uhrzeiten');
+
+      rerender(
+        <TimePicker
+          valueAsTime={null}
+          messages={{
+            resultsAvailable: (count) => `${count} results`,
+            noResults: 'Nothing found',
+            timeSelected: (time) => `Picked ${time}`,
+          }}
+        />
+      );
+      fireEvent.change(input, { target: { value: '11:3' } });
+      expect(status()).toHaveTextContent('2 results');
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(status()).toHaveTextContent('Picked 11:30am');
+    });
+  });
+
+  describe('Multiple Instances', () => {
+    const renderPickers = (count: number) =>
+      render(
+        <>
+          {Array.from({ length: count }, (_, index) => (
+            <TimePicker key={index} {...defaultProps} value="9:00am" />
+          ))}
+        </>
+      );
+
+    it('generates unique ids for each picker', () => {
+      renderPickers(3);
+      const inputs = screen.getAllByRole('combobox');
+
+      inputs.forEach((input) => fireEvent.keyDown(input, { key: 'ArrowDown' }));
+
+      const ids = Array.from(document.querySelectorAll('[id]'), (element) => element.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(screen.getAllByRole('listbox')).toHaveLength(3);
+      expect(new Set(inputs.map((input) => input.getAttribute('aria-controls'))).size).toBe(3);
+    });
+
+    it('points each input at its own listbox and options', () => {
+      renderPickers(2);
+
+      screen.getAllByRole('combobox').forEach((input) => {
+        fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+        const container = input.closest('[data-testid="timepicker"]') as HTMLElement;
+        const listbox = document.getElementById(input.getAttribute('aria-controls')!);
+        const active = document.getElementById(input.getAttribute('aria-activedescendant')!);
+
+        expect(listbox).toHaveAttribute('role', 'listbox');
+        expect(container).toContainElement(listbox);
+        expect(listbox).toContainElement(active);
+        expect(active).toHaveTextContent('9:00am');
+      });
+    });
+
+    it('keeps ids derived from an explicit id', () => {
+      render(<TimePicker {...defaultProps} id="start" />);
+      const input = screen.getByRole('combobox');
+
+      fireEvent.focus(input);
+
+      expect(input).toHaveAttribute('id', 'start');
+      expect(screen.getByRole('listbox')).toHaveAttribute('id', 'start-listbox');
+      expect(screen.getAllByRole('option')[0]).toHaveAttribute('id', 'start-listbox-option-0');
+    });
+
+    it('describes each input with its own error message', () => {
+      render(
+        <>
+          <TimePicker {...defaultProps} value="9:00am" error errorMessage="First is wrong" />
+          <TimePicker {...defaultProps} value="10:00am" error errorMessage="Second is wrong" />
+        </>
+      );
+      const [first, second] = screen.getAllByRole('combobox');
+
+      expect(first).toHaveAccessibleDescription('First is wrong');
+      expect(second).toHaveAccessibleDescription('Second is wrong');
+    });
+
+    it('only sets aria-describedby while invalid', () => {
+      render(<TimePicker {...defaultProps} />);
+
+      expect(screen.getByRole('combobox')).not.toHaveAttribute('aria-describedby');
+    });
+
+    it('describes the segment group with the error message', () => {
+      render(<TimePicker mode={SegmentedTimeInput} valueAsTime={null} error errorMessage="Pick a time" />);
+
+      expect(screen.getByTestId('timepicker-segments')).toHaveAccessibleDescription('Pick a time');
+    });
+  });
+
+  describe('Time Zones', () => {
+    const winter = new Date(Date.UTC(2024, 0, 15, 12));
+    const summer = new Date(Date.UTC(2024, 6, 15, 12));
+
+    it('shows a stored UTC value in the display zone', () => {
+      render(
+        <TimePicker
+          valueAsTime={{ hours: 14, minutes: 0 }}
+          timeZone="UTC"
+          displayTimeZone="America/New_York"
+          referenceDate={winter}
+        />
+      );
+
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('9:00am');
+      expect(screen.getByTestId('timepicker-time-zone')).toHaveTextContent('EST');
+      expect(screen.getByTestId('timepicker-input')).toHaveAccessibleDescription('EST');
+    });
+
+    it('applies the DST offset of the reference date', () => {
+      render(
+        <TimePicker
+          valueAsTime={{ hours: 14, minutes: 0 }}
+          timeZone="UTC"
+          displayTimeZone="America/New_York"
+          referenceDate={summer}
+        />
+      );
+
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('10:00am');
+      expect(screen.getByTestId('timepicker-time-zone')).toHaveTextContent('EDT');
+    });
+
+    it('converts picked times back to the stored zone', () => {
+      const onTimeChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsTime={null}
+          onTimeChange={onTimeChange}
+          timeZone="UTC"
+          displayTimeZone="America/New_York"
+          referenceDate={winter}
+          name="start"
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.mouseDown(screen.getByText('9:30am'));
+      expect(onTimeChange).toHaveBeenCalledWith({ hours: 14, minutes: 30 });
+
+      fireEvent.change(input, { target: { value: '11:45pm' } });
+      fireEvent.keyDown(input, { key: 'Escape' });
+      fireEvent.blur(input);
+      expect(onTimeChange).toHaveBeenLastCalledWith({ hours: 4, minutes: 45 });
+    });
+
+    it('submits the form value in the stored zone', () => {
+      render(
+        <TimePicker
+          defaultValue="9:00am"
+          timeZone="UTC"
+          displayTimeZone="Asia/Kolkata"
+          referenceDate={winter}
+          name="start"
+        />
+      );
+
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('03:30');
+    });
+
+    it('adds secondary zone hints to the options', () => {
+      render(
+        <TimePicker
+          valueAsTime={null}
+          displayTimeZone="America/New_York"
+          secondaryTimeZone="Europe/Paris"
+          referenceDate={winter}
+          locale="en-GB"
+          format="h:mma"
+          minTime="9:00am"
+          maxTime="10:00am"
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('9:00am (3:00pm CET)');
+      expect(screen.getByTestId('timepicker-time-zone')).toHaveTextContent('GMT-5');
+    });
+
+    it('keeps the typed text when rerendered with an inline reference date', () => {
+      const props = { valueAsTime: { hours: 14, minutes: 0 }, onTimeChange: vi.fn() };
+      const { rerender } = render(<TimePicker {...props} referenceDate={new Date()} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '10:3' } });
+      rerender(<TimePicker {...props} referenceDate={new Date()} />);
+      expect(input).toHaveValue('10:3');
+
+      const zoned = { ...props, timeZone: 'UTC', displayTimeZone: 'America/New_York' };
+      rerender(<TimePicker {...zoned} referenceDate={new Date(Date.UTC(2024, 0, 15, 12))} />);
+      fireEvent.change(input, { target: { value: '10:3' } });
+      rerender(<TimePicker {...zoned} referenceDate={new Date(Date.UTC(2024, 0, 15, 18))} />);
+      expect(input).toHaveValue('10:3');
+    });
+
+    it('shows no zone without time zone props', () => {
+      render(<TimePicker {...defaultProps} />);
+
+      expect(screen.queryByTestId('timepicker-time-zone')).not.toBeInTheDocument();
+      expect(screen.getByTestId('timepicker-input')).not.toHaveAttribute('aria-describedby');
+    });
+  });
+
+  describe('Date Values', () => {
+    it('shows the time of a Date and keeps its date when a time is picked', () => {
+      const onDateChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsDate={new Date(2026, 9, 19, 9, 0)}
+          onDateChange={onDateChange}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+      expect(input).toHaveValue('9:00am');
+
+      fireEvent.focus(input);
+      fireEvent.mouseDown(screen.getByText('2:30pm'));
+
+      const [date, iso] = onDateChange.mock.calls[0];
+      expect(date).toEqual(new Date(2026, 9, 19, 14, 30));
+      expect(iso).toBe('2026-10-19T14:30:00');
+    });
+
+    it('emits an ISO string in the format it was given', () => {
+      const onDateChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsDate="2026-10-19T09:00:00Z"
+          onDateChange={onDateChange}
+          timeZone="UTC"
+          interval={15}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+      expect(input).toHaveValue('9:00am');
+
+      fireEvent.change(input, { target: { value: '4:45pm' } });
+      fireEvent.keyDown(input, { key: 'Escape' });
+      fireEvent.blur(input);
+
+      expect(onDateChange).toHaveBeenCalledWith(
+        new Date('2026-10-19T16:45:00Z'),
+        '2026-10-19T16:45:00Z'
+      );
+    });
+
+    it('reads an ISO string with an offset like a Date', () => {
+      const onDateChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsDate="2026-10-19T13:00:00Z"
+          onDateChange={onDateChange}
+          timeZone="America/New_York"
+          displayTimeZone="America/New_York"
+        />
+      );
+
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('9:00am');
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('10:30am'));
+
+      expect(onDateChange).toHaveBeenCalledWith(
+        new Date('2026-10-19T14:30:00Z'),
+        '2026-10-19T14:30:00Z'
+      );
+    });
+
+    it('drops the seconds of the date when a time is picked', () => {
+      const onDateChange = vi.fn();
+      render(<TimePicker valueAsDate="2026-10-19T10:07:42" onDateChange={onDateChange} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('10:30am'));
+
+      expect(onDateChange).toHaveBeenCalledWith(
+        new Date(2026, 9, 19, 10, 30),
+        '2026-10-19T10:30:00'
+      );
+    });
+
+    it('does not rewrite the value when the field is tabbed through', () => {
+      const onDateChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsDate={new Date(2026, 9, 19, 10, 7, 42)}
+          onDateChange={onDateChange}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.blur(input);
+
+      expect(onDateChange).not.toHaveBeenCalled();
+    });
+
+    it('emits nulls when cleared', () => {
+      const onDateChange = vi.fn();
+      render(<TimePicker valueAsDate="2026-10-19T09:00:00" onDateChange={onDateChange} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.change(input, { target: { value: '' } });
+      fireEvent.blur(input);
+
+      expect(onDateChange).toHaveBeenCalledWith(null, null);
+    });
+
+    it('uses the reference date when there is no value yet', () => {
+      const onDateChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsDate={null}
+          onDateChange={onDateChange}
+          referenceDate={new Date(2026, 0, 5)}
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('8:00am'));
+
+      expect(onDateChange).toHaveBeenCalledWith(
+        new Date(2026, 0, 5, 8, 0),
+        '2026-01-05T08:00:00'
+      );
+    });
+
+    it('follows rerenders with a new date', () => {
+      const { rerender } = render(<TimePicker valueAsDate="2026-10-19T09:00:00" />);
+
+      rerender(<TimePicker valueAsDate="2026-10-20T17:30:00" />);
+
+      expect(screen.getByTestId('timepicker-input')).toHaveValue('5:30pm');
+    });
+
+    it('submits the ISO date-time', () => {
+      render(<TimePicker valueAsDate={new Date(2026, 9, 19, 14, 30)} name="startsAt" />);
+
+      expect(screen.getByTestId('timepicker-hidden-input')).toHaveValue('2026-10-19T14:30:00');
+    });
+
+    it('edits the time in the stored time zone', () => {
+      const onDateChange = vi.fn();
+      render(
+        <TimePicker
+          valueAsDate={new Date('2026-01-15T14:00:00Z')}
+          onDateChange={onDateChange}
+          timeZone="America/New_York"
+          displayTimeZone="America/New_York"
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+      expect(input).toHaveValue('9:00am');
+
+      fireEvent.focus(input);
+      fireEvent.mouseDown(screen.getByText('10:00am'));
+
+      expect(onDateChange.mock.calls[0][0]).toEqual(new Date('2026-01-15T15:00:00Z'));
+    });
+  });
+
+  describe('Relative Times', () => {
+    const tenOhSeven = () => new Date(2026, 9, 19, 10, 7);
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('hides options before the current time with minTime="now"', () => {
+      render(<TimePicker minTime="now" interval={15} now={tenOhSeven} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('10:15am');
+      expect(screen.queryByText('10:00am')).not.toBeInTheDocument();
+    });
+
+    it('can show past options disabled instead', () => {
+      render(<TimePicker minTime="now" pastTimes="disable" interval={15} now={tenOhSeven} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      expect(screen.getByText('10:00am')).toHaveAttribute('aria-disabled', 'true');
+      expect(screen.getByText('10:15am')).not.toHaveAttribute('aria-disabled');
+
+      fireEvent.change(input, { target: { value: '9:00am' } });
+      fireEvent.blur(input);
+      expect(input).toHaveAttribute('aria-invalid', 'true');
+    });
+
+    it('refreshes the options as the clock advances', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(tenOhSeven());
+      render(<TimePicker minTime="now" interval={15} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('10:15am');
+
+      // Still selectable at 10:15 exactly, gone a minute later
+      act(() => vi.advanceTimersByTime(8 * 60 * 1000));
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('10:15am');
+      act(() => vi.advanceTimersByTime(60 * 1000));
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('10:30am');
+    });
+
+    it('pins a Now option that picks the current time', () => {
+      const onChange = vi.fn();
+      render(<TimePicker showNow onChange={onChange} now={tenOhSeven} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      const nowOption = screen.getByTestId('timepicker-option-0');
+      expect(nowOption).toHaveTextContent('Now10:07am');
+      expect(nowOption).toHaveClass('timepicker__option--now');
+      expect(screen.getByTestId('timepicker-option-1')).toHaveTextContent('12:00am');
+
+      fireEvent.mouseDown(nowOption);
+      expect(onChange).toHaveBeenCalledWith('10:07am');
+    });
+
+    it('keeps the Now option above filtered results', () => {
+      render(<TimePicker showNow now={tenOhSeven} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '3:3' } });
+
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('Now');
+      expect(screen.getByTestId('timepicker-option-1')).toHaveTextContent('3:30am');
+    });
+
+    it('disables the Now option when the current time is unavailable', () => {
+      render(
+        <TimePicker
+          showNow
+          disabledTimes={[{ start: '10:00am', end: '11:00am' }]}
+          now={tenOhSeven}
+        />
+      );
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      expect(screen.getByTestId('timepicker-option-0')).toHaveAttribute('aria-disabled', 'true');
+    });
+  });
+
+  describe('Favorites and Recent Times', () => {
+    const createStorage = (times: string[] = []): RecentTimesStorage => ({
+      load: vi.fn(() => times),
+      save: vi.fn(),
+    });
+
+    const getOptionTexts = (group: HTMLElement) =>
+      within(group)
+        .getAllByRole('option')
+        .map((option) => option.textContent);
+
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('pins favorites in a labelled group above the options', () => {
+      render(<TimePicker favorites={['9:00am', '1:30pm']} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      const group = screen.getByRole('group', { name: 'Favorites' });
+      expect(getOptionTexts(group)).toEqual(['9:00am', '1:30pm']);
+      expect(screen.getByTestId('timepicker-option-2')).toHaveTextContent('12:00am');
+      expect(screen.queryByRole('group', { name: 'Recent' })).not.toBeInTheDocument();
+    });
+
+    it('shows stored recent times and records new picks', () => {
+      const storage = createStorage(['14:30', '09:00']);
+      render(<TimePicker recentLimit={2} recentStorage={storage} favorites={['9:00am']} />);
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      // 9:00am is already a favorite
+      expect(getOptionTexts(screen.getByRole('group', { name: 'Recent' }))).toEqual(['2:30pm']);
+
+      fireEvent.mouseDown(screen.getByTestId('timepicker-option-6'));
+      expect(input).toHaveValue('2:00am');
+      expect(storage.save).toHaveBeenCalledWith(['02:00', '14:30']);
+
+      fireEvent.blur(input);
+      fireEvent.focus(input);
+      expect(getOptionTexts(screen.getByRole('group', { name: 'Recent' }))).toEqual([
+        '2:00am',
+        '2:30pm',
+      ]);
+    });
+
+    it('keeps recent times in localStorage by default', () => {
+      const { unmount } = render(<TimePicker recentLimit={5} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      fireEvent.mouseDown(screen.getByText('10:00am'));
+      unmount();
+
+      expect(window.localStorage.getItem('react-nano-timepicker:recent')).toBe('["10:00"]');
+
+      render(<TimePicker recentLimit={5} />);
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      expect(getOptionTexts(screen.getByRole('group', { name: 'Recent' }))).toEqual(['10:00am']);
+    });
+
+    it('moves across group boundaries with the keyboard', () => {
+      render(
+        <TimePicker
+          favorites={['9:00am']}
+          recentLimit={3}
+          recentStorage={createStorage(['14:30'])}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+      fireEvent.focus(input);
+
+      const expectHighlighted = (text: string) => {
+        const id = input.getAttribute('aria-activedescendant');
+        expect(id && document.getElementById(id)).toHaveTextContent(text);
+      };
+
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expectHighlighted('9:00am');
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expectHighlighted('2:30pm');
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      expectHighlighted('12:00am');
+      fireEvent.keyDown(input, { key: 'ArrowUp' });
+      expectHighlighted('2:30pm');
+
+      // From the groups, PageDown jumps into the list and PageUp back to the top
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expectHighlighted('12:00am');
+      fireEvent.keyDown(input, { key: 'PageDown' });
+      expectHighlighted('1:00am');
+      fireEvent.keyDown(input, { key: 'Home' });
+      expectHighlighted('9:00am');
+
+      fireEvent.keyDown(input, { key: 'Enter' });
+      expect(input).toHaveValue('9:00am');
+    });
+
+    it('greys out pinned times that cannot be picked', () => {
+      render(<TimePicker favorites={['9:00am', '10:00am']} disabledTimes={['9:00am']} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+
+      const [nine, ten] = within(screen.getByRole('group', { name: 'Favorites' })).getAllByRole(
+        'option'
+      );
+      expect(nine).toHaveAttribute('aria-disabled', 'true');
+      expect(ten).not.toHaveAttribute('aria-disabled');
+    });
+
+    it('keeps the groups rendered above a virtualized list', () => {
+      render(<TimePicker favorites={['9:00am']} interval={1} virtualize itemHeight={30} />);
+
+      fireEvent.focus(screen.getByTestId('timepicker-input'));
+      // The heading and the favorite take two rows above the list
+      fireEvent.scroll(screen.getByRole('listbox'), { target: { scrollTop: 30 * (600 + 2) } });
+
+      expect(screen.getByTestId('timepicker-option-601')).toHaveTextContent('10:00am');
+      expect(screen.getByTestId('timepicker-option-0')).toHaveTextContent('9:00am');
+      expect(screen.queryByTestId('timepicker-option-1')).not.toBeInTheDocument();
+    });
+
+    it('filters the groups along with the options', () => {
+      render(
+        <TimePicker
+          favorites={['9:00am', '2:30pm']}
+          recentLimit={3}
+          recentStorage={createStorage(['08:00'])}
+        />
+      );
+      const input = screen.getByTestId('timepicker-input');
+
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '2:3' } });
+
+      expect(getOptionTexts(screen.getByRole('group', { name: 'Favorites' }))).toEqual([
+        '2:30pm',
+      ]);
+      expect(screen.queryByRole('group', { name: 'Recent' })).not.toBeInTheDocument();
     });
   });
 });
@@ -0,0 +1,661 @@
+import {
+  forwardRef,
+  useImperativeHandle,
+  useRef,
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useId,
+  type UIEvent,
+  type FocusEvent,
+  type KeyboardEvent,
+  type ComponentType,
+  type ReactNode,
+} from 'react';
+import { createPortal } from 'react-dom';
+import {
+  useTimePicker,
+  type UseTimePickerOptions,
+  type TimePickerInputProps,
+  type TimeOptionGroup,
+} from './useTimePicker';
+import type { TimeOption, TimeValue } from './utils/time';
+import { getVirtualWindow, getScrollTopForIndex } from './utils/virtual';
+import { getDropdownPosition, type DropdownPosition } from './utils/position';
+import type { SegmentedTimeInputProps } from './SegmentedTimeInput';
+import type { ClockFaceProps } from './ClockFace';
+import './styles.css';
+
+export type { TimeOptionsContext } from './useTimePicker';
+
+export interface TimeOptionRenderState {
+  index: number;
+  /** Highlighted by keyboard or mouse */
+  highlighted: boolean;
+  /** Matches the current input */
+  selected: boolean;
+  disabled: boolean;
+  /** The text TimePicker would show (formatOptionLabel, label or value) */
+  label: string;
+}
+
+/** Imperative API exposed through TimePicker's ref */
+export interface TimePickerHandle {
+  /** Open the dropdown */
+  open: () => void;
+  /** Close the dropdown */
+  close: () => void;
+  /** Clear the input (committing null in committed-value mode) */
+  clear: () => void;
+  /** Focus the input */
+  focus: () => void;
+  /** Select a time as if it was chosen from the list; returns false if it is not allowed */
+  selectTime: (time: TimeValue | string) => boolean;
+  /** Open the dropdown with the option closest to a time highlighted and scrolled into view */
+  scrollToTime: (time: TimeValue | string) => void;
+  /** The underlying input element */
+  getInput: () => HTMLInputElement | null;
+}
+
+export interface TimePickerProps extends UseTimePickerOptions {
+  /** Customize the text shown for an option; the value passed to onChange is unchanged */
+  formatOptionLabel?: (time: string) => string;
+  /** Render the content of an option; the surrounding element keeps its ARIA wiring */
+  renderOption?: (option: TimeOption, state: TimeOptionRenderState) => ReactNode;
+  /** Render the input, e.g. a design-system text field; spread the props onto the native input */
+  renderInput?: (props: TimePickerInputProps) => ReactNode;
+  /** Shown in the dropdown when no option matches the input (default: the dropdown is hidden) */
+  renderEmpty?: (inputValue: string) => ReactNode;
+  /** Shown at the bottom of the dropdown */
+  renderFooter?: () => ReactNode;
+  /** Only render the options in view, for long lists such as interval={1} (default: false) */
+  virtualize?: boolean;
+  /**
+   * "list" is a text input with a dropdown. Pass `SegmentedTimeInput` from
+   * "react-nano-timepicker/segmented" to show hour, minute and AM/PM spin
+   * buttons instead (default: "list")
+   */
+  mode?: 'list' | ComponentType<SegmentedTimeInputProps>;
+  /**
+   * Dropdown content: "list" shows the options. Pass `ClockFace` from
+   * "react-nano-timepicker/clock" for an analog dial where the hour is
+   * picked before the minute (default: "list")
+   */
+  variant?: 'list' | ComponentType<ClockFaceProps>;
+  /** Height of each option in px when virtualized (default: 36) */
+  itemHeight?: number;
+  /**
+   * Render the dropdown into document.body (true) or the given element, so
+   * overflow: hidden ancestors can't clip it (default: false). It is
+   * positioned next to the input, flipping above when there's no room below.
+   */
+  portal?: boolean | HTMLElement;
+  /** Error message to display */
+  errorMessage?: string;
+  /** Input placeholder text */
+  placeholder?: string;
+  /**
+   * Name of a hidden input that submits the time as "HH:mm" (or "HH:mm:ss"
+   * with seconds), or the ISO date-time with valueAsDate
+   */
+  name?: string;
+  /** Additional CSS class for the container */
+  className?: string;
+  /** Callback when input loses focus */
+  onBlur?: (event: FocusEvent<HTMLInputElement>) => void;
+  /** Callback when input gains focus */
+  onFocus?: (event: FocusEvent<HTMLInputElement>) => void;
+  /** Accessible label for the input */
+  'aria-label'?: string;
+  /** ID of element that labels the input */
+  'aria-labelledby'?: string;
+}
+
+// Used when the listbox has no layout yet; matches --timepicker-dropdown-max-height
+const DEFAULT_VIEWPORT_HEIGHT = 240;
+
+// useLayoutEffect warns when rendered on the server, where there is no layout anyway
+const useIsomorphicLayoutEffect = typeof document === 'undefined' ? useEffect : useLayoutEffect;
+
+/**
+ * A lightweight, accessible timepicker component for React
+ * with full keyboard navigation and CSS customization.
+ * Built on useTimePicker; use the hook directly for custom markup.
+ */
+export const TimePicker = forwardRef<TimePickerHandle, TimePickerProps>(
+  (
+    {
+      formatOptionLabel,
+      renderOption,
+      renderInput,
+      renderEmpty,
+      renderFooter,
+      mode = 'list',
+      variant = 'list',
+      virtualize = false,
+      itemHeight = 36,
+      portal = false,
+      errorMessage,
+      placeholder,
+      name,
+      className = '',
+      onBlur,
+      onFocus,
+      'aria-label': ariaLabel,
+      'aria-labelledby': ariaLabelledBy,
+      ...options
+    },
+    ref
+  ) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const rootRef = useRef<HTMLDivElement>(null);
+    const validityRef = useRef<HTMLInputElement>(null);
+    const timeZoneId = useId();
+    const listRef = useRef<HTMLElement | null>(null);
+    const scrollTopRef = useRef(0);
+    const [scrollTop, setScrollTop] = useState(0);
+    const {
+      isOpen,
+      highlightedIndex,
+      inputValue,
+      selectedTime,
+      options: timeOptions,
+      filteredOptions,
+      nowOption,
+      favoriteOptions,
+      recentOptions,
+      isInvalid,
+      isUnavailable,
+      formValue,
+      validationMessage,
+      errorId,
+      announcement,
+      messages,
+      timeZoneName,
+      formatValue,
+      hourCycle,
+      isOptionSelected,
+      getInputProps,
+      getListboxProps,
+      getOptionProps,
+      getGroupProps,
+      getGroupLabelProps,
+      open,
+      close,
+      clear,
+      reset,
+      focus,
+      selectOption,
+      selectTime,
+      scrollToTime,
+    } = useTimePicker(options);
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        open,
+        close,
+        clear,
+        focus,
+        selectTime,
+        scrollToTime,
+        getInput: () => inputRef.current,
+      }),
+      [open, close, clear, focus, selectTime, scrollToTime]
+    );
+
+    // Segmented mode has no text input for the hook to find the form through
+    useEffect(() => {
+      const form = rootRef.current?.closest('form');
+      if (mode === 'list' || !form) return;
+
+      form.addEventListener('reset', reset);
+      return () => form.removeEventListener('reset', reset);
+    }, [mode, reset]);
+
+    // Hidden inputs are barred from constraint validation, so segmented mode
+    // reports required and invalid times through a visually hidden one
+    useEffect(() => {
+      validityRef.current?.setCustomValidity(validationMessage);
+    }, [mode, validationMessage]);
+
+    const updateScrollTop = (top: number) => {
+      scrollTopRef.current = top;
+      setScrollTop(top);
+    };
+
+    // The list starts at the top each time it opens
+    useEffect(() => {
+      if (!isOpen) updateScrollTop(0);
+    }, [isOpen]);
+
+    // Pinned options come first: the Now option, then each non-empty group
+    // under its heading. Virtualized, headings take a row like an option.
+    const nowCount = nowOption ? 1 : 0;
+    const pinnedCount = nowCount + favoriteOptions.length + recentOptions.length;
+    const favoritesHeadingRows = favoriteOptions.length > 0 ? 1 : 0;
+    const headingRows = favoritesHeadingRows + (recentOptions.length > 0 ? 1 : 0);
+    const getRowIndex = (index: number) =>
+      index < nowCount
+        ? index
+        : index < nowCount + favoriteOptions.length
+          ? index + favoritesHeadingRows
+          : index + headingRows;
+    const rowIndex = getRowIndex(highlightedIndex);
+
+    // Scroll the highlighted option into the window; it may not be rendered yet
+    useEffect(() => {
+      const list = listRef.current;
+      if (!virtualize || !isOpen || highlightedIndex < 0 || !list) return;
+
+      const top = getScrollTopForIndex(
+        rowIndex,
+        itemHeight,
+        scrollTopRef.current,
+        list.clientHeight || DEFAULT_VIEWPORT_HEIGHT
+      );
+      if (top !== scrollTopRef.current) {
+        list.scrollTop = top;
+        updateScrollTop(top);
+      }
+    }, [virtualize, isOpen, highlightedIndex, rowIndex, itemHeight]);
+
+    const handleListScroll = (event: UIEvent<HTMLElement>) => {
+      if (virtualize) updateScrollTop(event.currentTarget.scrollTop);
+    };
+
+    // The pinned options are always rendered; the window covers the rest
+    const listCount = filteredOptions.length - pinnedCount;
+    const listWindow = virtualize
+      ? getVirtualWindow(
+          listCount,
+          itemHeight,
+          scrollTop - (pinnedCount + headingRows) * itemHeight,
+          listRef.current?.clientHeight || DEFAULT_VIEWPORT_HEIGHT
+        )
+      : {
+          start: 0,
+          end: listCount,
+          paddingTop: 0,
+          paddingBottom: 0,
+        };
+
+    const portalContainer =
+      portal === true
+        ? typeof document === 'undefined'
+          ? null
+          : document.body
+        : portal || null;
+    const [position, setPosition] = useState<DropdownPosition | null>(null);
+
+    // Keep a portalled dropdown next to the input as the page scrolls or resizes
+    useIsomorphicLayoutEffect(() => {
+      if (!portalContainer || !isOpen) {
+        setPosition(null);
+        return;
+      }
+
+      const update = (event?: Event) => {
+        const input = inputRef.current;
+        const list = listRef.current;
+        // Scrolling the list itself doesn't move it
+        if (!input || !list || event?.target === list) return;
+
+        const cssMaxHeight =
+          parseFloat(
+            getComputedStyle(list).getPropertyValue('--timepicker-dropdown-max-height')
+          ) || DEFAULT_VIEWPORT_HEIGHT;
+        const next = getDropdownPosition(
+          input.getBoundingClientRect(),
+          Math.min(list.scrollHeight, cssMaxHeight),
+          { width: window.innerWidth, height: window.innerHeight }
+        );
+        setPosition({ ...next, maxHeight: Math.min(next.maxHeight, cssMaxHeight) });
+      };
+
+      update();
+      window.addEventListener('scroll', update, true);
+      window.addEventListener('resize', update);
+      return () => {
+        window.removeEventListener('scroll', update, true);
+        window.removeEventListener('resize', update);
+      };
+    }, [portalContainer, isOpen, filteredOptions.length]);
+
+    // Segmented mode and the clock are passed in, so list-only builds leave them out
+    const Segments = mode === 'list' ? null : mode;
+    const Clock = variant === 'list' ? null : variant;
+
+    // The arrow keys move focus from the input onto the dial
+    const handleClockKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+      if (isOpen && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+        listRef.current?.querySelector<HTMLElement>('[role="slider"]')?.focus();
+      }
+    };
+
+    // Focus goes back to the input first so that it doesn't reopen the dial
+    const handleClockSelect = (option: TimeOption) => {
+      focus();
+      selectOption(option);
+    };
+
+    const handleClockCancel = () => {
+      focus();
+      close();
+    };
+
+    const handleClockBlur = (event: FocusEvent<HTMLElement>) => {
+      const next = event.relatedTarget as Node | null;
+      if (!event.currentTarget.contains(next) && next !== inputRef.current) {
+        close();
+      }
+    };
+
+    const inputProps = {
+      ...getInputProps({
+        ref: inputRef,
+        placeholder,
+        onFocus,
+        onBlur,
+        onKeyDown: Clock ? handleClockKeyDown : undefined,
+        'aria-label': ariaLabel,
+        'aria-labelledby': ariaLabelledBy,
+        'aria-describedby': timeZoneName ? timeZoneId : undefined,
+        className: `timepicker__input ${
+          isInvalid ? 'timepicker__input--error' : ''
+        }`.trim(),
+      }),
+      ...(Clock && {
+        'aria-haspopup': 'dialog' as const,
+        'aria-activedescendant': undefined,
+      }),
+      'data-testid': 'timepicker-input',
+    };
+
+    const isEmpty = filteredOptions.length === 0;
+    const visibleOptions = filteredOptions.slice(
+      pinnedCount + listWindow.start,
+      pinnedCount + listWindow.end
+    );
+    const rowStyle = virtualize
+      ? { height: itemHeight, boxSizing: 'border-box' as const }
+      : undefined;
+
+    const renderOptionItem = (option: TimeOption, index: number, group?: TimeOptionGroup) => {
+      const highlighted = highlightedIndex === index;
+      const selected = isOptionSelected(option);
+      const isNow = option === nowOption;
+      const label =
+        formatOptionLabel && !isNow
+          ? formatOptionLabel(option.value)
+          : option.label ?? option.value;
+
+      return (
+        <li
+          key={isNow ? 'now' : `${group ?? 'option'}-${option.value}`}
+          {...getOptionProps({
+            option,
+            index,
+            className: `timepicker__option ${
+              highlighted ? 'timepicker__option--highlighted' : ''
+            } ${selected ? 'timepicker__option--selected' : ''} ${
+              option.disabled ? 'timepicker__option--disabled' : ''
+            } ${isNow ? 'timepicker__option--now' : ''}`
+              .replace(/\s+/g, ' ')
+              .trim(),
+            ...(virtualize && {
+              style: rowStyle,
+              'aria-setsize': filteredOptions.length,
+              'aria-posinset': index + 1,
+            }),
+          })}
+          data-testid={`timepicker-option-${index}`}
+        >
+          {renderOption ? (
+            renderOption(option, {
+              index,
+              highlighted,
+              selected,
+              disabled: option.disabled ?? false,
+              label,
+            })
+          ) : (
+            <>
+              {label}
+              {isNow && <span className="timepicker__option-badge">{option.value}</span>}
+              {option.nextDay && (
+                <span className="timepicker__option-badge">{messages.nextDay}</span>
+              )}
+            </>
+          )}
+        </li>
+      );
+    };
+
+    // A labelled group of pinned options, e.g. "Recent"
+    const renderGroup = (
+      group: TimeOptionGroup,
+      groupOptions: TimeOption[],
+      firstIndex: number
+    ) =>
+      groupOptions.length > 0 && (
+        <li
+          {...getGroupProps(group, {
+            className: `timepicker__group timepicker__group--${group}`,
+          })}
+          data-testid={`timepicker-group-${group}`}
+        >
+          <div
+            {...getGroupLabelProps(group, {
+              className: 'timepicker__group-label',
+              style: rowStyle,
+            })}
+          >
+            {group === 'favorites' ? messages.favorites : messages.recent}
+          </div>
+          <ul role="presentation" className="timepicker__group-options">
+            {groupOptions.map((option, offset) =>
+              renderOptionItem(option, firstIndex + offset, group)
+            )}
+          </ul>
+        </li>
+      );
+
+    const clockDropdown =
+      !Segments && Clock && isOpen ? (
+        <div
+          {...getListboxProps({
+            ref: listRef,
+            className: 'timepicker__dropdown timepicker__dropdown--clock',
+            style: position ? { maxHeight: position.maxHeight } : undefined,
+          })}
+          role="dialog"
+          aria-label={ariaLabel ?? messages.placeholder}
+          onBlur={handleClockBlur}
+          data-testid="timepicker-dropdown"
+        >
+          <Clock
+            value={selectedTime}
+            options={timeOptions}
+            onSelect={handleClockSelect}
+            onCancel={handleClockCancel}
+            hourCycle={hourCycle}
+            locale={options.locale}
+            formatValue={formatValue}
+            messages={messages}
+          />
+          {renderFooter && (
+            <div className="timepicker__footer" data-testid="timepicker-footer">
+              {renderFooter()}
+            </div>
+          )}
+        </div>
+      ) : null;
+
+    const listDropdown =
+      !Segments && !Clock && isOpen && (!isEmpty || renderEmpty) ? (
+        <ul
+          {...getListboxProps({
+            ref: listRef,
+            className: 'timepicker__dropdown',
+            style: position ? { maxHeight: position.maxHeight } : undefined,
+            onScroll: handleListScroll,
+          })}
+          data-testid="timepicker-dropdown"
+        >
+          {nowOption && renderOptionItem(nowOption, 0)}
+          {renderGroup('favorites', favoriteOptions, nowCount)}
+          {renderGroup('recent', recentOptions, nowCount + favoriteOptions.length)}
+          {listWindow.paddingTop > 0 && (
+            <li role="presentation" style={{ height: listWindow.paddingTop }} />
+          )}
+          {visibleOptions.map((option, offset) =>
+            renderOptionItem(option, pinnedCount + listWindow.start + offset)
+          )}
+          {listWindow.paddingBottom > 0 && (
+            <li role="presentation" style={{ height: listWindow.paddingBottom }} />
+          )}
+          {isEmpty && renderEmpty && (
+            <li
+              role="presentation"
+              className="timepicker__empty"
+              data-testid="timepicker-empty"
+            >
+              {renderEmpty(inputValue)}
+            </li>
+          )}
+          {renderFooter && (
+            <li
+              role="presentation"
+              className="timepicker__footer"
+              data-testid="timepicker-footer"
+            >
+              {renderFooter()}
+            </li>
+          )}
+        </ul>
+      ) : null;
+
+    const dropdown = clockDropdown ?? listDropdown;
+
+    return (
+      <div
+        ref={rootRef}
+        className={`timepicker ${timeZoneName ? 'timepicker--zoned' : ''} ${className}`
+          .replace(/\s+/g, ' ')
+          .trim()}
+        data-testid="timepicker"
+      >
+        {Segments ? (
+          <Segments
+            value={selectedTime}
+            onChange={(time) => {
+              if (time) {
+                selectTime(time);
+              } else {
+                clear();
+              }
+            }}
+            minTime={options.minTime}
+            maxTime={options.maxTime}
+            interval={options.interval}
+            disabledTimes={options.disabledTimes}
+            allowOvernight={options.allowOvernight}
+            showSeconds={options.showSeconds}
+            hourCycle={hourCycle}
+            locale={options.locale}
+            messages={options.messages}
+            error={isInvalid}
+            disabled={options.disabled}
+            id={options.id}
+            aria-label={ariaLabel}
+            aria-labelledby={ariaLabelledBy}
+            aria-describedby={isInvalid ? errorId : undefined}
+          />
+        ) : renderInput ? (
+          renderInput(inputProps)
+        ) : (
+          <input {...inputProps} />
+        )}
+        {timeZoneName && (
+          <span
+            id={timeZoneId}
+            className="timepicker__time-zone"
+            data-testid="timepicker-time-zone"
+          >
+            {timeZoneName}
+          </span>
+        )}
+        {name && (
+          <input
+            type="hidden"
+            name={name}
+            value={formValue}
+            disabled={options.disabled}
+            data-testid="timepicker-hidden-input"
+          />
+        )}
+        {Segments && (
+          <input
+            ref={validityRef}
+            className="timepicker__visually-hidden"
+            value={formValue}
+            onChange={() => {}}
+            onFocus={() =>
+              rootRef.current?.querySelector<HTMLElement>('[role="spinbutton"]')?.focus()
+            }
+            disabled={options.disabled}
+            tabIndex={-1}
+            aria-hidden="true"
+            data-testid="timepicker-validity-input"
+          />
+        )}
+
+        {dropdown && portalContainer
+          ? createPortal(
+              <div
+                className={`timepicker timepicker--portal ${className}`.trim()}
+                style={
+                  position
+                    ? { top: position.top, left: position.left, width: position.width }
+                    : undefined
+                }
+                data-placement={position?.placement}
+                data-testid="timepicker-portal"
+              >
+                {dropdown}
+              </div>,
+              portalContainer
+            )
+          : dropdown}
+
+        {!Segments && (
+          <div
+            className="timepicker__visually-hidden"
+            role="status"
+            aria-live="polite"
+            aria-atomic="true"
+            data-testid="timepicker-status"
+          >
+            {announcement}
+          </div>
+        )}
+
+        {isInvalid && (
+          <div
+            id={errorId}
+            className="timepicker__error"
+            role="alert"
+            data-testid="timepicker-error"
+          >
+            {!options.error && isUnavailable
+              ? messages.timeUnavailable
+              : errorMessage ?? messages.errorMessage}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+TimePicker.displayName = 'TimePicker';
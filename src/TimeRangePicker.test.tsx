@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { TimeRangePicker } from './index';
+
+describe('TimeRangePicker', () => {
+  const defaultProps = {
+    value: { start: '', end: '' },
+    onChange: vi.fn(),
+    minTime: '9:00am',
+    maxTime: '5:00pm',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const getInputs = () => screen.getAllByTestId('timepicker-input');
+
+  it('renders labelled start and end inputs', () => {
+    render(<TimeRangePicker {...defaultProps} />);
+    expect(screen.getByLabelText('Start time')).toBeInTheDocument();
+    expect(screen.getByLabelText('End time')).toBeInTheDocument();
+  });
+
+  it('emits the updated range when the start changes', () => {
+    const onChange = vi.fn();
+    render(
+      <TimeRangePicker
+        {...defaultProps}
+        value={{ start: '', end: '3:00pm' }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.focus(getInputs()[0]);
+    fireEvent.mouseDown(screen.getByText('9:30am'));
+
+    expect(onChange).toHaveBeenCalledWith({ start: '9:30am', end: '3:00pm' });
+  });
+
+  it('starts end options after the chosen start with duration hints', () => {
+    render(
+      <TimeRangePicker {...defaultProps} value={{ start: '1:30pm', end: '' }} />
+    );
+
+    fireEvent.focus(getInputs()[1]);
+    const dropdown = screen.getByTestId('timepicker-dropdown');
+
+    expect(within(dropdown).getByTestId('timepicker-option-0')).toHaveTextContent(
+      '2:00pm (30m)'
+    );
+    expect(within(dropdown).getByText('3:00pm (1h 30m)')).toBeInTheDocument();
+    expect(within(dropdown).queryByText(/^1:00pm/)).not.toBeInTheDocument();
+  });
+
+  it('emits the plain time when an end option is selected', () => {
+    const onChange = vi.fn();
+    render(
+      <TimeRangePicker
+        {...defaultProps}
+        value={{ start: '1:30pm', end: '' }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.focus(getInputs()[1]);
+    fireEvent.mouseDown(screen.getByText('3:00pm (1h 30m)'));
+
+    expect(onChange).toHaveBeenCalledWith({ start: '1:30pm', end: '3:00pm' });
+  });
+
+  it('respects minimum and maximum durations in the end options', () => {
+    render(
+      <TimeRangePicker
+        {...defaultProps}
+        value={{ start: '1:00pm', end: '' }}
+        minDuration={60}
+        maxDuration={120}
+        showDuration={false}
+      />
+    );
+
+    fireEvent.focus(getInputs()[1]);
+    const options = within(screen.getByTestId('timepicker-dropdown')).getAllByRole('option');
+
+    expect(options.map((option) => option.textContent)).toEqual([
+      '2:00pm',
+      '2:30pm',
+      '3:00pm',
+    ]);
+  });
+
+  it('shows an error when the end is not after the start', () => {
+    render(
+      <TimeRangePicker {...defaultProps} value={{ start: '2:00pm', end: '1:00pm' }} />
+    );
+    expect(screen.getByText('End time must be after start time')).toBeInTheDocument();
+    expect(getInputs()[1]).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('validates minimum and maximum durations', () => {
+    const { rerender } = render(
+      <TimeRangePicker
+        {...defaultProps}
+        value={{ start: '1:00pm', end: '1:30pm' }}
+        minDuration={60}
+      />
+    );
+    expect(screen.getByText('Must be at least 1h')).toBeInTheDocument();
+
+    rerender(
+      <TimeRangePicker
+        {...defaultProps}
+        value={{ start: '1:00pm', end: '4:00pm' }}
+        maxDuration={90}
+      />
+    );
+    expect(screen.getByText('Must be at most 1h 30m')).toBeInTheDocument();
+  });
+
+  it('accepts overnight ranges when allowed', () => {
+    const { rerender } = render(
+      <TimeRangePicker
+        {...defaultProps}
+        minTime="12:00am"
+        maxTime="11:59pm"
+        value={{ start: '10:00pm', end: '6:00am' }}
+      />
+    );
+    expect(screen.getByTestId('timepicker-error')).toBeInTheDocument();
+
+    rerender(
+      <TimeRangePicker
+        {...defaultProps}
+        minTime="12:00am"
+        maxTime="11:59pm"
+        value={{ start: '10:00pm', end: '6:00am' }}
+        allowOvernight
+      />
+    );
+    expect(screen.queryByTestId('timepicker-error')).not.toBeInTheDocument();
+
+    fireEvent.focus(getInputs()[1]);
+    expect(screen.getByText('6:00am (8h)')).toBeInTheDocument();
+  });
+
+  it('orders overnight end options after the start', () => {
+    render(
+      <TimeRangePicker
+        {...defaultProps}
+        value={{ start: '10:00pm', end: '' }}
+        interval={60}
+        maxDuration={180}
+        allowOvernight
+      />
+    );
+
+    fireEvent.focus(getInputs()[1]);
+    const options = within(screen.getByTestId('timepicker-dropdown')).getAllByRole('option');
+
+    expect(options.map((option) => option.textContent)).toEqual([
+      '11:00pm (1h)',
+      '12:00am (2h)+1 day',
+      '1:00am (3h)+1 day',
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+import { useCallback, useMemo } from 'react';
+import { TimePicker, type TimePickerProps } from './TimePicker';
+import {
+  parseTime,
+  formatTime,
+  timeToSeconds,
+  secondsToTime,
+  getDurationMinutes,
+  formatDuration,
+  type TimeValue,
+} from './utils/time';
+import { parseLocalizedTime, getMessages } from './utils/locale';
+
+export interface TimeRange {
+  /** Start time text (e.g., "2:00pm") */
+  start: string;
+  /** End time text (e.g., "3:30pm") */
+  end: string;
+}
+
+export interface TimeRangePickerProps
+  extends Pick<
+    TimePickerProps,
+    | 'minTime'
+    | 'maxTime'
+    | 'interval'
+    | 'disabledTimes'
+    | 'showSeconds'
+    | 'hourCycle'
+    | 'format'
+    | 'locale'
+    | 'parser'
+    | 'messages'
+    | 'disabled'
+  > {
+  /** Current range */
+  value: TimeRange;
+  /** Callback when either end of the range changes */
+  onChange: (range: TimeRange) => void;
+  /** Minimum duration in minutes */
+  minDuration?: number;
+  /** Maximum duration in minutes */
+  maxDuration?: number;
+  /**
+   * Allow the end to fall on the next day, e.g. 10:00pm - 6:00am (default: false).
+   * End options then cover the day after the start, limited by maxDuration.
+   */
+  allowOvernight?: boolean;
+  /** Show the duration next to each end option, e.g. "3:00pm (1h 30m)" (default: true) */
+  showDuration?: boolean;
+  /** Show error state */
+  error?: boolean;
+  /** Error message to display, overriding the range validation messages */
+  errorMessage?: string;
+  /** Placeholder for the start input */
+  startPlaceholder?: string;
+  /** Placeholder for the end input */
+  endPlaceholder?: string;
+  /** Name attribute for the start input */
+  startName?: string;
+  /** Name attribute for the end input */
+  endName?: string;
+  /** Id prefix; inputs get `${id}-start` and `${id}-end` */
+  id?: string;
+  /** Additional CSS class for the container */
+  className?: string;
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+function toTimeString(totalSeconds: number): string {
+  return formatTime(secondsToTime(totalSeconds), 'HH:mm:ss');
+}
+
+/**
+ * A start/end pair of TimePickers. End options begin after the chosen
+ * start and show the resulting duration.
+ */
+export function TimeRangePicker({
+  value,
+  onChange,
+  minTime = '12:00am',
+  maxTime = '11:59pm',
+  interval = 30,
+  minDuration,
+  maxDuration,
+  allowOvernight = false,
+  showDuration = true,
+  error = false,
+  errorMessage,
+  startPlaceholder,
+  endPlaceholder,
+  startName,
+  endName,
+  id,
+  className = '',
+  locale,
+  parser,
+  messages,
+  ...pickerProps
+}: TimeRangePickerProps) {
+  const resolvedMessages = useMemo(
+    () => getMessages(locale, messages),
+    [locale, messages]
+  );
+
+  const parseValue = useCallback(
+    (text: string): TimeValue | null => {
+      if (parser) return parser(text);
+      return locale ? parseLocalizedTime(text, locale) : parseTime(text);
+    },
+    [parser, locale]
+  );
+
+  const start = parseValue(value.start);
+  const end = parseValue(value.end);
+  const startSeconds = start ? timeToSeconds(start) : null;
+
+  // End options begin one step (or the minimum duration) after the start
+  const endBounds = useMemo(() => {
+    if (startSeconds === null) {
+      return { minTime, maxTime };
+    }
+
+    const firstEnd = startSeconds + (minDuration ?? interval) * 60;
+
+    if (allowOvernight) {
+      const lastEnd =
+        startSeconds +
+        (maxDuration === undefined ? SECONDS_PER_DAY - interval * 60 : maxDuration * 60);
+      return {
+        minTime: toTimeString(firstEnd % SECONDS_PER_DAY),
+        maxTime: toTimeString(lastEnd % SECONDS_PER_DAY),
+      };
+    }
+
+    const maxSeconds = timeToSeconds(parseTime(maxTime) ?? { hours: 23, minutes: 59 });
+    const lastEnd =
+      maxDuration === undefined
+        ? maxSeconds
+        : Math.min(maxSeconds, startSeconds + maxDuration * 60);
+
+    if (firstEnd >= SECONDS_PER_DAY) {
+      // Nothing fits before midnight; an inverted range yields no options
+      return { minTime: maxTime, maxTime: minTime };
+    }
+
+    return { minTime: toTimeString(firstEnd), maxTime: toTimeString(lastEnd) };
+  }, [startSeconds, allowOvernight, minTime, maxTime, minDuration, maxDuration, interval]);
+
+  const formatEndLabel = useCallback(
+    (time: string) => {
+      const endTime = parseValue(time);
+      if (!start || !endTime) return time;
+      const duration = getDurationMinutes(start, endTime, allowOvernight);
+      return `${time} (${formatDuration(duration)})`;
+    },
+    [start, parseValue, allowOvernight]
+  );
+
+  let rangeError: string | undefined;
+  if (start && end) {
+    const duration = getDurationMinutes(start, end, allowOvernight);
+    if (duration <= 0) {
+      rangeError = resolvedMessages.rangeEndBeforeStart;
+    } else if (minDuration !== undefined && duration < minDuration) {
+      rangeError = resolvedMessages.rangeTooShort(formatDuration(minDuration));
+    } else if (maxDuration !== undefined && duration > maxDuration) {
+      rangeError = resolvedMessages.rangeTooLong(formatDuration(maxDuration));
+    }
+  }
+
+  return (
+    <div
+      className={`timerangepicker ${className}`.trim()}
+      role="group"
+      data-testid="timerangepicker"
+    >
+      <TimePicker
+        {...pickerProps}
+        value={value.start}
+        onChange={(time) => onChange({ ...value, start: time })}
+        minTime={minTime}
+        maxTime={maxTime}
+        interval={interval}
+        allowOvernight={allowOvernight}
+        locale={locale}
+        parser={parser}
+        messages={messages}
+        placeholder={startPlaceholder}
+        name={startName}
+        id={id ? `${id}-start` : undefined}
+        aria-label={resolvedMessages.rangeStartLabel}
+        className="timerangepicker__start"
+      />
+      <span className="timerangepicker__separator" aria-hidden="true">
+        –
+      </span>
+      <TimePicker
+        {...pickerProps}
+        value={value.end}
+        onChange={(time) => onChange({ ...value, end: time })}
+        minTime={endBounds.minTime}
+        maxTime={endBounds.maxTime}
+        interval={interval}
+        allowOvernight={allowOvernight}
+        locale={locale}
+        parser={parser}
+        messages={messages}
+        formatOptionLabel={showDuration ? formatEndLabel : undefined}
+        error={error || rangeError !== undefined}
+        errorMessage={errorMessage ?? rangeError}
+        placeholder={endPlaceholder}
+        name={endName}
+        id={id ? `${id}-end` : undefined}
+        aria-label={resolvedMessages.rangeEndLabel}
+        className="timerangepicker__end"
+      />
+    </div>
+  );
+}
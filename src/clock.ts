@@ -0,0 +1,2 @@
+export { ClockFace } from './ClockFace';
+export type { ClockFaceProps } from './ClockFace';
@@ -0,0 +1,2 @@
+export { SegmentedTimeInput } from './SegmentedTimeInput';
+export type { SegmentedTimeInputProps } from './SegmentedTimeInput';
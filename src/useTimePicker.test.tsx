@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { useTimePicker, type UseTimePickerOptions } from './index';
+
+function CustomPicker(props: UseTimePickerOptions) {
+  const { isOpen, filteredOptions, getInputProps, getListboxProps, getOptionProps } =
+    useTimePicker(props);
+
+  return (
+    <div>
+      <input {...getInputProps({ 'aria-label': 'Meeting time' })} />
+      {isOpen && (
+        <div {...getListboxProps()}>
+          {filteredOptions.map((option, index) => (
+            <div key={option.value} {...getOptionProps({ option, index })}>
+              <strong>{option.value}</strong>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+describe('useTimePicker', () => {
+  it('wires combobox ARIA attributes onto custom markup', () => {
+    render(<CustomPicker id="meeting" minTime="9:00am" maxTime="10:00am" />);
+    const input = screen.getByRole('combobox', { name: 'Meeting time' });
+
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+    expect(input).toHaveAttribute('aria-controls', 'meeting-listbox');
+
+    fireEvent.focus(input);
+
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByRole('listbox')).toHaveAttribute('id', 'meeting-listbox');
+    expect(screen.getAllByRole('option')).toHaveLength(3);
+    expect(screen.getAllByRole('option')[0]).toHaveAttribute(
+      'id',
+      'meeting-listbox-option-0'
+    );
+  });
+
+  it('handles keyboard navigation and selection', () => {
+    const onTimeChange = vi.fn();
+    render(
+      <CustomPicker
+        valueAsTime={null}
+        onTimeChange={onTimeChange}
+        minTime="9:00am"
+        maxTime="10:00am"
+      />
+    );
+    const input = screen.getByRole('combobox');
+
+    fireEvent.focus(input);
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+    expect(input).toHaveAttribute('aria-activedescendant', screen.getAllByRole('option')[1].id);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onTimeChange).toHaveBeenCalledWith({ hours: 9, minutes: 30 });
+    expect(input).toHaveValue('9:30am');
+  });
+
+  it('selects options on click and skips disabled ones', () => {
+    const onChange = vi.fn();
+    render(
+      <CustomPicker
+        value=""
+        onChange={onChange}
+        minTime="9:00am"
+        maxTime="10:00am"
+        disabledTimes={['9:30am']}
+      />
+    );
+
+    fireEvent.focus(screen.getByRole('combobox'));
+    const [, disabled, last] = screen.getAllByRole('option');
+
+    expect(disabled).toHaveAttribute('aria-disabled', 'true');
+    fireEvent.mouseDown(disabled);
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.mouseDown(last);
+    expect(onChange).toHaveBeenCalledWith('10:00am');
+  });
+
+  it('calls consumer handlers passed to prop getters', () => {
+    const onFocus = vi.fn();
+    const onKeyDown = vi.fn();
+
+    function Picker() {
+      const { getInputProps } = useTimePicker();
+      return <input {...getInputProps({ onFocus, onKeyDown })} />;
+    }
+
+    render(<Picker />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.focus(input);
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+    expect(onFocus).toHaveBeenCalledTimes(1);
+    expect(onKeyDown).toHaveBeenCalledTimes(1);
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('links the input to the error element while invalid', () => {
+    function ErrorPicker(props: UseTimePickerOptions) {
+      const { isInvalid, errorId, getInputProps } = useTimePicker(props);
+      return (
+        <>
+          <input {...getInputProps({ 'aria-describedby': 'hint' })} />
+          <span id="hint">Office hours only</span>
+          {isInvalid && <span id={errorId}>Invalid</span>}
+        </>
+      );
+    }
+
+    render(<ErrorPicker id="meeting" />);
+    const input = screen.getByRole('combobox');
+
+    expect(input).toHaveAttribute('aria-describedby', 'hint');
+
+    fireEvent.change(input, { target: { value: 'xyz' } });
+
+    expect(input).toHaveAttribute('aria-describedby', 'hint meeting-error');
+    expect(input).toHaveAccessibleDescription('Office hours only Invalid');
+  });
+
+  it('labels pinned groups for custom markup', () => {
+    function GroupedPicker(props: UseTimePickerOptions) {
+      const {
+        favoriteOptions,
+        getInputProps,
+        getListboxProps,
+        getOptionProps,
+        getGroupProps,
+        getGroupLabelProps,
+      } = useTimePicker(props);
+      return (
+        <>
+          <input {...getInputProps()} />
+          <ul {...getListboxProps()}>
+            <li {...getGroupProps('favorites')}>
+              <span {...getGroupLabelProps('favorites')}>Starred</span>
+              <ul role="presentation">
+                {favoriteOptions.map((option, index) => (
+                  <li key={option.value} {...getOptionProps({ option, index })}>
+                    {option.value}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          </ul>
+        </>
+      );
+    }
+
+    render(<GroupedPicker id="meeting" favorites={['9:00am']} />);
+
+    const group = screen.getByRole('group', { name: 'Starred' });
+    expect(group).toHaveAttribute('aria-labelledby', 'meeting-listbox-favorites-label');
+    expect(screen.getByRole('option', { name: '9:00am' })).toHaveAttribute(
+      'id',
+      'meeting-listbox-option-0'
+    );
+  });
+});
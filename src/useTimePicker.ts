@@ -0,0 +1,1358 @@
+import {
+  useState,
+  useCallback,
+  useMemo,
+  useRef,
+  useEffect,
+  useId,
+  type KeyboardEvent,
+  type ChangeEvent,
+  type FocusEvent,
+  type MouseEvent,
+  type Ref,
+  type RefCallback,
+  type HTMLAttributes,
+  type InputHTMLAttributes,
+} from 'react';
+import {
+  generateTimeOptions,
+  toTimeOptions,
+  filterTimesByInput,
+  parseTime,
+  formatTime,
+  timeToSeconds,
+  secondsToTime,
+  isTimeDisabled,
+  isTimeInRange,
+  snapTime,
+  convertTimeZone,
+  getLocalTimeZone,
+  getZonedTime,
+  fromISOTime,
+  toISODateTime,
+  applyTimeToDate,
+  getISOOffset,
+  getTimeZoneName,
+  zonedTimeToDate,
+  DEFAULT_TIME_FORMAT,
+  DEFAULT_TIME_FORMAT_WITH_SECONDS,
+  type TimeValue,
+  type TimeFormatter,
+  type TimeParser,
+  type TimeOption,
+  type DisabledTimes,
+  type TimeOptionInput,
+  type SnapMode,
+} from './utils/time';
+import {
+  formatLocalizedTime,
+  parseLocalizedTime,
+  getLocaleHourCycle,
+  getMessages,
+  type TimePickerMessages,
+} from './utils/locale';
+import {
+  createLocalStorageAdapter,
+  addRecentTime,
+  type RecentTimesStorage,
+} from './utils/storage';
+
+export interface TimeOptionsContext {
+  minTime: string;
+  maxTime: string;
+  interval: number;
+  /** The picker's formatter, so generated values match its display format */
+  format: TimeFormatter;
+}
+
+/** Pinned groups shown above the options */
+export type TimeOptionGroup = 'favorites' | 'recent';
+
+export interface UseTimePickerOptions {
+  /** Current input text (e.g., "2:30pm") */
+  value?: string;
+  /** Initial input text when uncontrolled; restored when the form is reset */
+  defaultValue?: string;
+  /** Callback on every input change, including partially typed text */
+  onChange?: (time: string) => void;
+  /** Current time as a structured value; switches to committed-value mode */
+  valueAsTime?: TimeValue | null;
+  /** Callback when a valid time is committed (option select, Enter or blur), or null when cleared */
+  onTimeChange?: (time: TimeValue | null) => void;
+  /**
+   * Current date-time as a Date or ISO 8601 string; only its time of day is
+   * edited and the date is kept. Switches to committed-value mode.
+   */
+  valueAsDate?: Date | string | null;
+  /**
+   * Callback with the updated date-time as a Date and an ISO string (keeping
+   * the format of an ISO valueAsDate, else local "2026-10-19T14:30:00"), or nulls when cleared
+   */
+  onDateChange?: (date: Date | null, iso: string | null) => void;
+  /**
+   * Minimum selectable time, or "now" to drop options before the current
+   * time as the clock advances (default: "12:00am")
+   */
+  minTime?: string;
+  /** Maximum selectable time (default: "11:59pm") */
+  maxTime?: string;
+  /** With minTime="now", hide past options or show them disabled (default: "hide") */
+  pastTimes?: 'hide' | 'disable';
+  /** Pin a "Now" option to the top of the list that picks the current time (default: false) */
+  showNow?: boolean;
+  /** Clock used by minTime="now" and the Now option (default: () => new Date()) */
+  now?: () => Date;
+  /** Times pinned in a "Favorites" group above the options */
+  favorites?: TimeOptionInput[];
+  /** How many recently picked times to pin in a "Recent" group (default: 0, none) */
+  recentLimit?: number;
+  /** Where recent times are kept between visits (default: localStorage) */
+  recentStorage?: RecentTimesStorage;
+  /** Interval between time options in minutes; fractions step by seconds (default: 30) */
+  interval?: number;
+  /** Explicit options, or a generator; replaces the minTime/maxTime/interval list */
+  options?: TimeOptionInput[] | ((context: TimeOptionsContext) => TimeOptionInput[]);
+  /** Snap typed times to the interval grid (anchored at minTime) on blur or Enter (default: "none") */
+  snap?: SnapMode;
+  /** Reject typed times that are off the grid or outside minTime/maxTime (default: false) */
+  strict?: boolean;
+  /** Times that cannot be selected: individual times, { start, end } ranges or a predicate */
+  disabledTimes?: DisabledTimes;
+  /** Continue options past midnight when maxTime is before minTime, e.g. 10:00pm - 6:00am (default: false) */
+  allowOvernight?: boolean;
+  /** Show and accept seconds, e.g. "2:30:15pm" (default: false) */
+  showSeconds?: boolean;
+  /** Hour cycle: 12 ("2:30pm") or 24 ("14:30") (default: 12, or the locale's preference) */
+  hourCycle?: 12 | 24;
+  /** Format spec for options, e.g. "h:mma", "HH:mm" or "h:mm A" (overrides hourCycle and locale) */
+  format?: string;
+  /** BCP 47 locale for options, parsing and default strings, e.g. "de" or "ja-JP" */
+  locale?: string;
+  /** Custom parser for typed text, e.g. from createTimeParser (default: parseTime, or the locale parser) */
+  parser?: TimeParser;
+  /** Overrides for the locale's default strings */
+  messages?: Partial<TimePickerMessages>;
+  /** Show error state */
+  error?: boolean;
+  /**
+   * Input id attribute; the listbox, option and error ids are derived from it
+   * (default: a unique id from useId, so several pickers never collide)
+   */
+  id?: string;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Require a time; reported through native form validation (default: false) */
+  required?: boolean;
+  /**
+   * IANA zone of valueAsTime, onTimeChange and the form value, e.g. "UTC";
+   * also the zone whose time of day a Date valueAsDate is edited in
+   */
+  timeZone?: string;
+  /**
+   * IANA zone the input and options are shown in; minTime, maxTime and
+   * disabledTimes apply here (default: the viewer's zone)
+   */
+  displayTimeZone?: string;
+  /** Zone shown next to each option, e.g. "9:00am (3:00pm CET)" */
+  secondaryTimeZone?: string;
+  /** Day whose DST rules the zone conversions follow (default: today) */
+  referenceDate?: Date;
+}
+
+type InputProps = InputHTMLAttributes<HTMLInputElement> & {
+  ref?: Ref<HTMLInputElement>;
+};
+
+type ListboxProps = HTMLAttributes<HTMLElement> & {
+  ref?: Ref<HTMLElement>;
+};
+
+/** Props returned by getInputProps, e.g. for TimePicker's renderInput */
+export type TimePickerInputProps = InputHTMLAttributes<HTMLInputElement> & {
+  ref: RefCallback<HTMLInputElement>;
+};
+
+type ListboxPropsResult = HTMLAttributes<HTMLElement> & {
+  ref: RefCallback<HTMLElement>;
+};
+
+type OptionProps = HTMLAttributes<HTMLElement> & {
+  option: TimeOption;
+  index: number;
+};
+
+export interface UseTimePickerResult {
+  /** Whether the listbox is open */
+  isOpen: boolean;
+  /** Index of the highlighted option in filteredOptions, or -1 */
+  highlightedIndex: number;
+  /** Current input text */
+  inputValue: string;
+  /** Every option, including disabled ones */
+  options: TimeOption[];
+  /** Options matching the typed text, after the Now option when shown */
+  filteredOptions: TimeOption[];
+  /** The pinned Now option, or null without showNow */
+  nowOption: TimeOption | null;
+  /** Favorites matching the typed text; in filteredOptions after the Now option */
+  favoriteOptions: TimeOption[];
+  /** Recently picked times matching the typed text; in filteredOptions after the favorites */
+  recentOptions: TimeOption[];
+  /** The input text parsed as a time, or null */
+  selectedTime: TimeValue | null;
+  /** Whether the input should show its error state */
+  isInvalid: boolean;
+  /** Whether the input is a valid time that cannot be selected */
+  isUnavailable: boolean;
+  /**
+   * Normalized value for form submission ("14:30", or "14:30:15" with seconds;
+   * the ISO date-time with valueAsDate), or ""
+   */
+  formValue: string;
+  /** Message reported through constraint validation, or "" while the time is valid */
+  validationMessage: string;
+  /**
+   * Id for the element showing the error message; the input's aria-describedby
+   * points at it while isInvalid
+   */
+  errorId: string;
+  /** Latest message for a polite live region: result counts while filtering, or the picked time */
+  announcement: string;
+  /** Resolved strings for the locale */
+  messages: TimePickerMessages;
+  /** Short name of the display zone, e.g. "EST", when time zones are in use */
+  timeZoneName: string | undefined;
+  /** Formats a time the way options are displayed */
+  formatValue: TimeFormatter;
+  /** The hour cycle times are shown in, from format, hourCycle or the locale */
+  hourCycle: 12 | 24;
+  /** Parses typed text */
+  parseValue: TimeParser;
+  open: () => void;
+  close: () => void;
+  setHighlightedIndex: (index: number) => void;
+  /** Select an option as if it was clicked */
+  selectOption: (option: TimeOption) => void;
+  /** Select a time (snapped like typed input) without focusing the input; returns false if it is not allowed */
+  selectTime: (time: TimeValue | string) => boolean;
+  /** Clear the input (committing null in committed-value mode) */
+  clear: () => void;
+  /** Restore defaultValue, or the committed value's text, as a form reset does */
+  reset: () => void;
+  focus: () => void;
+  /** Open the dropdown with the option closest to a time highlighted and scrolled into view */
+  scrollToTime: (time: TimeValue | string) => void;
+  /** Whether an option matches the current input */
+  isOptionSelected: (option: TimeOption) => boolean;
+  /** Props for the text input, with combobox ARIA wiring and keyboard handling */
+  getInputProps: (props?: InputProps) => TimePickerInputProps;
+  /** Props for the listbox element */
+  getListboxProps: (props?: ListboxProps) => ListboxPropsResult;
+  /** Props for an option element */
+  getOptionProps: (props: OptionProps) => HTMLAttributes<HTMLElement>;
+  /** Props for the element wrapping a pinned group's options */
+  getGroupProps: (
+    group: TimeOptionGroup,
+    props?: HTMLAttributes<HTMLElement>
+  ) => HTMLAttributes<HTMLElement>;
+  /** Props for a pinned group's visible heading, which labels the group */
+  getGroupLabelProps: (
+    group: TimeOptionGroup,
+    props?: HTMLAttributes<HTMLElement>
+  ) => HTMLAttributes<HTMLElement>;
+}
+
+function getDefaultFormat(hourCycle: 12 | 24, showSeconds: boolean): string {
+  if (hourCycle === 24) {
+    return showSeconds ? 'HH:mm:ss' : 'HH:mm';
+  }
+  return showSeconds ? DEFAULT_TIME_FORMAT_WITH_SECONDS : DEFAULT_TIME_FORMAT;
+}
+
+/**
+ * Step from `from` to the next enabled option, wrapping around the list.
+ * Returns -1 when every option is disabled.
+ */
+function getNextEnabledIndex(
+  options: TimeOption[],
+  from: number,
+  step: 1 | -1
+): number {
+  const count = options.length;
+  const start = from < 0 && step < 0 ? count : from;
+
+  for (let i = 1; i <= count; i++) {
+    const index = (((start + step * i) % count) + count) % count;
+    if (!options[index].disabled) return index;
+  }
+
+  return -1;
+}
+
+const SECONDS_PER_HOUR = 60 * 60;
+const SECONDS_PER_DAY = 24 * SECONDS_PER_HOUR;
+const MS_PER_MINUTE = 60 * 1000;
+
+const getCurrentDate = () => new Date();
+const defaultRecentStorage = createLocalStorageAdapter();
+
+/** Seconds from the start of the list's first day, so overnight options keep increasing */
+function getOptionSeconds(option: TimeOption): number {
+  return timeToSeconds(option.time) + (option.nextDay ? SECONDS_PER_DAY : 0);
+}
+
+/**
+ * The enabled option closest in time to `seconds`, or -1 when there is none
+ */
+function getClosestEnabledIndex(options: TimeOption[], seconds: number): number {
+  let closest = -1;
+  let closestDistance = Infinity;
+
+  options.forEach((option, index) => {
+    if (option.disabled) return;
+    const distance = Math.abs(timeToSeconds(option.time) - seconds);
+    if (distance < closestDistance) {
+      closest = index;
+      closestDistance = distance;
+    }
+  });
+
+  return closest;
+}
+
+/**
+ * Step from `from` to the last enabled option at most an hour away (at least
+ * one option), stopping at the ends of the list or at `first`
+ */
+function getIndexAnHourAway(
+  options: TimeOption[],
+  from: number,
+  step: 1 | -1,
+  first = 0
+): number {
+  if (from < 0) return getNextEnabledIndex(options, from, step);
+
+  const start = getOptionSeconds(options[from]);
+  let result = from;
+
+  for (let i = from + step; i >= first && i < options.length; i += step) {
+    const distance = (getOptionSeconds(options[i]) - start) * step;
+    if (distance > SECONDS_PER_HOUR && result !== from) break;
+    if (!options[i].disabled) {
+      result = i;
+      if (distance >= SECONDS_PER_HOUR) break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run our handler, then the consumer's
+ */
+function callAll<E>(
+  ours: (event: E) => void,
+  theirs: ((event: E) => void) | undefined
+): (event: E) => void {
+  return (event) => {
+    ours(event);
+    theirs?.(event);
+  };
+}
+
+/**
+ * The time of day of a date-time: as written for ISO strings without an
+ * offset, otherwise in local time or in `timeZone`
+ */
+function getTimeOfDate(value: Date | string, timeZone?: string): TimeValue | null {
+  if (typeof value === 'string') {
+    if (!getISOOffset(value)) return fromISOTime(value);
+    return getTimeOfDate(new Date(value), timeZone);
+  }
+  if (Number.isNaN(value.getTime())) return null;
+
+  return timeZone
+    ? getZonedTime(value, timeZone)
+    : { hours: value.getHours(), minutes: value.getMinutes(), seconds: value.getSeconds() };
+}
+
+function assignRef<T>(ref: Ref<T> | undefined, node: T | null) {
+  if (typeof ref === 'function') {
+    ref(node);
+  } else if (ref) {
+    (ref as React.MutableRefObject<T | null>).current = node;
+  }
+}
+
+/**
+ * Headless timepicker state and behavior. Returns the picker state plus
+ * prop getters that wire up the combobox ARIA attributes and keyboard
+ * handling for your own input, listbox and option elements.
+ */
+export function useTimePicker({
+  value,
+  onChange,
+  valueAsTime: valueAsTimeProp,
+  onTimeChange: onTimeChangeProp,
+  valueAsDate,
+  onDateChange,
+  minTime = '12:00am',
+  maxTime = '11:59pm',
+  pastTimes = 'hide',
+  showNow = false,
+  now = getCurrentDate,
+  favorites,
+  recentLimit = 0,
+  recentStorage = defaultRecentStorage,
+  interval = 30,
+  allowOvernight = false,
+  options,
+  snap = 'none',
+  strict = false,
+  disabledTimes,
+  showSeconds = false,
+  hourCycle,
+  format,
+  locale,
+  parser,
+  messages,
+  error = false,
+  id,
+  disabled = false,
+  defaultValue,
+  required = false,
+  timeZone,
+  displayTimeZone,
+  secondaryTimeZone,
+  referenceDate,
+}: UseTimePickerOptions = {}): UseTimePickerResult {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [hasInteracted, setHasInteracted] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listboxRef = useRef<HTMLElement | null>(null);
+  // Input text when the field gained focus, restored by Escape
+  const focusValueRef = useRef('');
+
+  const resolvedMessages = useMemo(
+    () => getMessages(locale, messages),
+    [locale, messages]
+  );
+
+  const formatValue = useCallback<TimeFormatter>(
+    (time) =>
+      locale && !format
+        ? formatLocalizedTime(time, locale, { hourCycle, showSeconds })
+        : formatTime(time, format ?? getDefaultFormat(hourCycle ?? 12, showSeconds)),
+    [locale, format, hourCycle, showSeconds]
+  );
+
+  const resolvedHourCycle: 12 | 24 = format
+    ? /H/.test(format)
+      ? 24
+      : 12
+    : hourCycle ?? (locale ? getLocaleHourCycle(locale) : 12);
+
+  const parseValue = useCallback<TimeParser>(
+    (text) => {
+      if (parser) return parser(text);
+      return locale ? parseLocalizedTime(text, locale) : parseTime(text);
+    },
+    [parser, locale]
+  );
+
+  // valueAsDate edits the time of day of a date through committed-value mode
+  const isDateControlled = valueAsDate !== undefined;
+  const dateValue =
+    typeof valueAsDate === 'string' ? new Date(valueAsDate) : valueAsDate ?? null;
+  const valueAsTime = isDateControlled
+    ? valueAsDate === null
+      ? null
+      : getTimeOfDate(valueAsDate, timeZone)
+    : valueAsTimeProp;
+
+  const handleDateTimeChange = useCallback(
+    (time: TimeValue | null) => {
+      if (!time) {
+        onDateChange?.(null, null);
+        return;
+      }
+
+      const base = valueAsDate ?? referenceDate ?? new Date();
+      if (typeof base === 'string') {
+        const iso = applyTimeToDate(base, time, timeZone);
+        onDateChange?.(new Date(iso), iso);
+      } else {
+        const date = applyTimeToDate(base, time, timeZone);
+        onDateChange?.(date, toISODateTime(date));
+      }
+    },
+    [valueAsDate, referenceDate, timeZone, onDateChange]
+  );
+  const onTimeChange = isDateControlled ? handleDateTimeChange : onTimeChangeProp;
+
+  // Stored values are in timeZone; the input and options in displayZone
+  const displayZone =
+    displayTimeZone ?? (timeZone || secondaryTimeZone ? getLocalTimeZone() : undefined);
+  // Conversions follow the DST rules of the edited date unless told otherwise.
+  // Only its day matters, so a new Date for the same day keeps the memo.
+  const zoneDay = displayZone
+    ? zonedTimeToDate(
+        { hours: 0, minutes: 0 },
+        timeZone ?? displayZone,
+        referenceDate ?? dateValue ?? new Date()
+      ).getTime()
+    : undefined;
+  const zoneDate = useMemo(
+    () => (zoneDay === undefined ? undefined : new Date(zoneDay)),
+    [zoneDay]
+  );
+
+  const toDisplayTime = useCallback(
+    (time: TimeValue) =>
+      timeZone && displayZone
+        ? convertTimeZone(time, timeZone, displayZone, zoneDate)
+        : time,
+    [timeZone, displayZone, zoneDate]
+  );
+
+  const toStoredTime = useCallback(
+    (time: TimeValue) =>
+      timeZone && displayZone
+        ? convertTimeZone(time, displayZone, timeZone, zoneDate)
+        : time,
+    [timeZone, displayZone, zoneDate]
+  );
+
+  // minTime="now" and the Now option follow the clock, minute by minute
+  const usesClock = minTime === 'now' || showNow;
+  const [currentDate, setCurrentDate] = useState(now);
+
+  useEffect(() => {
+    if (!usesClock) return;
+    const delay = MS_PER_MINUTE - (now().getTime() % MS_PER_MINUTE);
+    const timer = setTimeout(() => setCurrentDate(now()), delay);
+    return () => clearTimeout(timer);
+  }, [usesClock, now, currentDate]);
+
+  // The current minute of the day in the display zone
+  const currentTime = usesClock ? getTimeOfDate(currentDate, displayZone) : null;
+  const currentSeconds = currentTime
+    ? timeToSeconds({ hours: currentTime.hours, minutes: currentTime.minutes })
+    : null;
+  const minSeconds = minTime === 'now' ? currentSeconds : null;
+  // The range and interval grid of minTime="now" start at midnight, so the
+  // first remaining option is the current time rounded up to the interval
+  const baseMinTime = minTime === 'now' ? '12:00am' : minTime;
+
+  const timeZoneName = useMemo(
+    () => (displayZone ? getTimeZoneName(displayZone, zoneDate, locale) : undefined),
+    [displayZone, zoneDate, locale]
+  );
+
+  // In committed-value and uncontrolled modes the input text is a draft
+  // kept in local state
+  const isTimeControlled = valueAsTime !== undefined;
+  const usesDraft = isTimeControlled || value === undefined;
+  const committedSeconds = valueAsTime ? timeToSeconds(valueAsTime) : null;
+
+  // Input text for a committed time (in seconds), or "" when cleared
+  const formatCommitted = useCallback(
+    (seconds: number | null) =>
+      seconds === null ? '' : formatValue(toDisplayTime(secondsToTime(seconds))),
+    [formatValue, toDisplayTime]
+  );
+
+  const [draft, setDraft] = useState(() =>
+    isTimeControlled ? formatCommitted(committedSeconds) : defaultValue ?? ''
+  );
+  const inputValue = usesDraft ? draft : value ?? '';
+
+  // Sync the draft when the committed value changes from outside
+  useEffect(() => {
+    if (!isTimeControlled) return;
+    setDraft(formatCommitted(committedSeconds));
+  }, [isTimeControlled, committedSeconds, formatCommitted]);
+
+  // Generate time options (memoized)
+  const timeOptions = useMemo(() => {
+    const baseOptions = options
+      ? toTimeOptions(
+          typeof options === 'function'
+            ? options({ minTime: baseMinTime, maxTime, interval, format: formatValue })
+            : options,
+          formatValue,
+          parseValue
+        )
+      : generateTimeOptions(baseMinTime, maxTime, interval, formatValue, {
+          wrap: allowOvernight,
+        });
+
+    const isPast = (option: TimeOption) =>
+      minSeconds !== null && !option.nextDay && timeToSeconds(option.time) < minSeconds;
+    const withDisabled = baseOptions
+      .filter((option) => pastTimes === 'disable' || !isPast(option))
+      .map((option) =>
+        isTimeDisabled(option.time, disabledTimes) || isPast(option)
+          ? { ...option, disabled: true }
+          : option
+      );
+    if (!secondaryTimeZone || !displayZone) return withDisabled;
+
+    // Hint with the time in the secondary zone, e.g. "9:00am (3:00pm CET)"
+    const secondaryName = getTimeZoneName(secondaryTimeZone, zoneDate, locale);
+    return withDisabled.map((option) => {
+      const secondary = convertTimeZone(option.time, displayZone, secondaryTimeZone, zoneDate);
+      return {
+        ...option,
+        label: `${option.label ?? option.value} (${formatValue(secondary)} ${secondaryName})`,
+      };
+    });
+  }, [
+    options,
+    baseMinTime,
+    maxTime,
+    interval,
+    formatValue,
+    parseValue,
+    allowOvernight,
+    minSeconds,
+    pastTimes,
+    disabledTimes,
+    secondaryTimeZone,
+    displayZone,
+    zoneDate,
+    locale,
+  ]);
+
+  // The interval grid is anchored at minTime
+  const gridAnchor = useMemo(() => parseTime(baseMinTime) ?? undefined, [baseMinTime]);
+
+  const maxSeconds = useMemo(() => {
+    const max = parseTime(maxTime);
+    return max ? timeToSeconds(max) : SECONDS_PER_DAY - 1;
+  }, [maxTime]);
+  const isOvernight =
+    allowOvernight && timeToSeconds(gridAnchor ?? { hours: 0, minutes: 0 }) > maxSeconds;
+
+  // Snapping forward never leaves the range: a time that would snap past
+  // midnight (unless the range runs overnight) or past maxTime takes the
+  // previous grid slot instead
+  const snapToGrid = useCallback(
+    (time: TimeValue) => {
+      const snapped = snapTime(time, interval, snap, gridAnchor);
+      const seconds = timeToSeconds(time);
+      const moved = timeToSeconds(snapped) - seconds;
+      // A snap moves at most one interval; anything further wrapped around
+      const wrappedForward = moved < -interval * 60;
+      const passedMax =
+        !isOvernight && moved > 0 && seconds <= maxSeconds && seconds + moved > maxSeconds;
+
+      return (wrappedForward && !isOvernight) || passedMax
+        ? snapTime(time, interval, 'floor', gridAnchor)
+        : snapped;
+    },
+    [interval, snap, gridAnchor, isOvernight, maxSeconds]
+  );
+
+  // Whether a typed time may be committed: not disabled (or past, when past
+  // options are disabled) and, in strict mode, one of the options (or on the
+  // grid and within minTime/maxTime)
+  const isTimeAllowed = useCallback(
+    (time: TimeValue) => {
+      if (isTimeDisabled(time, disabledTimes)) return false;
+      const isPast = minSeconds !== null && timeToSeconds(time) < minSeconds;
+      if (isPast && (strict || pastTimes === 'disable')) return false;
+      if (!strict) return true;
+
+      const seconds = timeToSeconds(time);
+      if (options) {
+        return timeOptions.some((option) => timeToSeconds(option.time) === seconds);
+      }
+
+      const onGrid =
+        timeToSeconds(snapTime(time, interval, 'nearest', gridAnchor)) === seconds;
+      return onGrid && isTimeInRange(time, baseMinTime, maxTime);
+    },
+    [
+      disabledTimes,
+      minSeconds,
+      pastTimes,
+      strict,
+      options,
+      timeOptions,
+      interval,
+      gridAnchor,
+      baseMinTime,
+      maxTime,
+    ]
+  );
+
+  // Pinned above the options; picks the current time like typing it would
+  const nowOption = useMemo<TimeOption | null>(() => {
+    if (!showNow || currentSeconds === null) return null;
+
+    const time = snapToGrid(secondsToTime(currentSeconds));
+    return {
+      value: formatValue(time),
+      time,
+      label: resolvedMessages.now,
+      ...(!isTimeAllowed(time) && { disabled: true }),
+    };
+  }, [showNow, currentSeconds, snapToGrid, formatValue, resolvedMessages, isTimeAllowed]);
+
+  // Recent picks are loaded after mounting, so server and client markup match
+  const [recentTimes, setRecentTimes] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (recentLimit <= 0) return;
+    const loaded = recentStorage.load().slice(0, recentLimit);
+    setRecentTimes((previous) =>
+      previous.join() === loaded.join() ? previous : loaded
+    );
+  }, [recentStorage, recentLimit]);
+
+  // Favorites and recent picks, greyed out where the time can't be picked
+  const pinnedOptions = useMemo(() => {
+    const markUnavailable = (option: TimeOption): TimeOption => {
+      const seconds = timeToSeconds(option.time);
+      const unavailable =
+        !isTimeAllowed(option.time) ||
+        (minSeconds !== null && seconds < minSeconds) ||
+        timeOptions.some(
+          (candidate) => candidate.disabled && timeToSeconds(candidate.time) === seconds
+        );
+      return unavailable ? { ...option, disabled: true } : option;
+    };
+
+    const favoriteOptions = toTimeOptions(favorites ?? [], formatValue, parseValue).map(
+      markUnavailable
+    );
+    const favoriteSeconds = new Set(
+      favoriteOptions.map((option) => timeToSeconds(option.time))
+    );
+    const recentOptions = toTimeOptions(
+      recentLimit > 0 ? recentTimes : [],
+      formatValue,
+      parseTime
+    )
+      .filter((option) => !favoriteSeconds.has(timeToSeconds(option.time)))
+      .map(markUnavailable);
+
+    return { favoriteOptions, recentOptions };
+  }, [
+    favorites,
+    recentLimit,
+    recentTimes,
+    formatValue,
+    parseValue,
+    isTimeAllowed,
+    minSeconds,
+    timeOptions,
+  ]);
+
+  // Filter options based on user input. The pinned options come first, so
+  // keyboard navigation runs through them into the list.
+  const { favoriteOptions, recentOptions, listOptions, filteredOptions } = useMemo(() => {
+    const filter = (list: TimeOption[]) =>
+      !inputValue || !hasInteracted ? list : filterTimesByInput(list, inputValue, parseValue);
+
+    const favoriteMatches = filter(pinnedOptions.favoriteOptions);
+    const recentMatches = filter(pinnedOptions.recentOptions);
+    const listMatches = filter(timeOptions);
+
+    return {
+      favoriteOptions: favoriteMatches,
+      recentOptions: recentMatches,
+      listOptions: listMatches,
+      filteredOptions: [
+        ...(nowOption ? [nowOption] : []),
+        ...favoriteMatches,
+        ...recentMatches,
+        ...listMatches,
+      ],
+    };
+  }, [timeOptions, pinnedOptions, inputValue, hasInteracted, parseValue, nowOption]);
+  const pinnedCount = filteredOptions.length - listOptions.length;
+
+  // The option in the list (not the pinned groups) closest to a time
+  const getClosestListIndex = useCallback(
+    (time: TimeValue) => {
+      const index = getClosestEnabledIndex(listOptions, timeToSeconds(time));
+      return index < 0 ? -1 : index + pinnedCount;
+    },
+    [listOptions, pinnedCount]
+  );
+
+  const generatedId = useId();
+  const baseId = id ?? generatedId;
+  const listboxId = `${baseId}-listbox`;
+  const errorId = `${baseId}-error`;
+  const getOptionId = useCallback(
+    (index: number) => `${listboxId}-option-${index}`,
+    [listboxId]
+  );
+
+  // Whether focus or a click target is still inside the picker
+  const isInsidePicker = useCallback(
+    (node: Node | null) =>
+      node !== null &&
+      (inputRef.current?.contains(node) || listboxRef.current?.contains(node)) === true,
+    []
+  );
+
+  // Handle click outside to close dropdown
+  useEffect(() => {
+    const handleClickOutside = (event: globalThis.MouseEvent) => {
+      if (!isInsidePicker(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, isInsidePicker]);
+
+  // Scroll highlighted option into view
+  useEffect(() => {
+    if (isOpen && highlightedIndex >= 0) {
+      const option = document.getElementById(getOptionId(highlightedIndex));
+      option?.scrollIntoView?.({ block: 'nearest' });
+    }
+  }, [isOpen, highlightedIndex, getOptionId]);
+
+  // Reset highlighted index when options change
+  useEffect(() => {
+    setHighlightedIndex(-1);
+  }, [filteredOptions]);
+
+  // Announce how many options match as the user types
+  useEffect(() => {
+    if (!isOpen || !hasInteracted) return;
+    const count = listOptions.filter((option) => !option.disabled).length;
+    setAnnouncement(
+      count === 0 ? resolvedMessages.noResults : resolvedMessages.resultsAvailable(count)
+    );
+  }, [isOpen, hasInteracted, listOptions, resolvedMessages]);
+
+  const updateInputValue = useCallback(
+    (text: string) => {
+      if (usesDraft) {
+        setDraft(text);
+      }
+      onChange?.(text);
+    },
+    [usesDraft, onChange]
+  );
+
+  // Emit a committed time (or null when cleared) in committed-value mode
+  const commitTime = useCallback(
+    (time: TimeValue | null) => {
+      if (!isTimeControlled) return;
+
+      // Without a seconds field a picked time is on the minute
+      const committed =
+        time && !showSeconds ? { hours: time.hours, minutes: time.minutes } : time;
+
+      setDraft(committed ? formatValue(committed) : '');
+      const stored = committed && toStoredTime(committed);
+      if ((stored ? timeToSeconds(stored) : null) !== committedSeconds) {
+        onTimeChange?.(stored);
+      }
+    },
+    [
+      isTimeControlled,
+      showSeconds,
+      formatValue,
+      toStoredTime,
+      committedSeconds,
+      onTimeChange,
+    ]
+  );
+
+  // Commit typed text once it parses to an allowed time, snapping it to
+  // the interval grid first
+  const commitInputValue = useCallback(
+    (text: string) => {
+      // Unedited text shows the committed value; committing it again could
+      // only lose precision the input doesn't display
+      if (isTimeControlled && text === formatCommitted(committedSeconds)) return;
+
+      if (!text.trim()) {
+        commitTime(null);
+        return;
+      }
+
+      const parsed = parseValue(text);
+      if (!parsed) return;
+
+      const time = snapToGrid(parsed);
+      if (!isTimeAllowed(time)) return;
+
+      if (snap !== 'none' && !isTimeControlled) {
+        const formatted = formatValue(time);
+        if (formatted !== text) {
+          updateInputValue(formatted);
+        }
+      }
+      commitTime(time);
+    },
+    [
+      isTimeControlled,
+      formatCommitted,
+      committedSeconds,
+      commitTime,
+      parseValue,
+      snapToGrid,
+      isTimeAllowed,
+      snap,
+      formatValue,
+      updateInputValue,
+    ]
+  );
+
+  // Open with the current value, or the option nearest to it, highlighted
+  const open = useCallback(() => {
+    if (!isOpen) {
+      const time = parseValue(inputValue);
+      setHighlightedIndex(time ? getClosestListIndex(time) : -1);
+    }
+    setIsOpen(true);
+  }, [isOpen, parseValue, inputValue, getClosestListIndex]);
+  const close = useCallback(() => setIsOpen(false), []);
+
+  // Shared by option selection and the programmatic actions below
+  const applySelection = useCallback(
+    (text: string, time: TimeValue | null) => {
+      updateInputValue(text);
+      commitTime(time);
+      setIsOpen(false);
+      setHasInteracted(false);
+      if (time) setAnnouncement(resolvedMessages.timeSelected(text));
+    },
+    [updateInputValue, commitTime, resolvedMessages]
+  );
+
+  const selectOption = useCallback(
+    (option: TimeOption) => {
+      applySelection(option.value, option.time);
+      inputRef.current?.focus();
+
+      // Remember picks from the list; "Now" changes by the minute
+      if (recentLimit > 0 && option !== nowOption) {
+        const next = addRecentTime(
+          recentTimes,
+          formatTime(option.time, showSeconds ? 'HH:mm:ss' : 'HH:mm'),
+          recentLimit
+        );
+        setRecentTimes(next);
+        recentStorage.save(next);
+      }
+    },
+    [applySelection, recentLimit, nowOption, recentTimes, showSeconds, recentStorage]
+  );
+
+  const toTime = useCallback(
+    (time: TimeValue | string) => (typeof time === 'string' ? parseValue(time) : time),
+    [parseValue]
+  );
+
+  const selectTime = useCallback(
+    (time: TimeValue | string) => {
+      const parsed = toTime(time);
+      if (!parsed) return false;
+
+      const snapped = snapToGrid(parsed);
+      const seconds = timeToSeconds(snapped);
+      const option = timeOptions.find(
+        (candidate) => timeToSeconds(candidate.time) === seconds
+      );
+      if (option) {
+        if (option.disabled) return false;
+        applySelection(option.value, option.time);
+        return true;
+      }
+
+      if (!isTimeAllowed(snapped)) return false;
+      applySelection(formatValue(snapped), snapped);
+      return true;
+    },
+    [toTime, snapToGrid, timeOptions, applySelection, isTimeAllowed, formatValue]
+  );
+
+  const clear = useCallback(() => applySelection('', null), [applySelection]);
+
+  const focus = useCallback(() => inputRef.current?.focus(), []);
+
+  const scrollToTime = useCallback(
+    (time: TimeValue | string) => {
+      const parsed = toTime(time);
+      if (!parsed) return;
+
+      setIsOpen(true);
+      setHighlightedIndex(getClosestListIndex(parsed));
+    },
+    [toTime, getClosestListIndex]
+  );
+
+  const handleInputChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const newValue = event.target.value;
+      setHasInteracted(true);
+      updateInputValue(newValue);
+      if (!isOpen) {
+        setIsOpen(true);
+      }
+    },
+    [updateInputValue, isOpen]
+  );
+
+  const handleInputFocus = useCallback(() => {
+    focusValueRef.current = inputValue;
+    open();
+  }, [inputValue, open]);
+
+  const handleInputBlur = useCallback(() => {
+    commitInputValue(inputValue);
+    // Delay to allow click on option to register
+    setTimeout(() => {
+      if (!isInsidePicker(document.activeElement)) {
+        setIsOpen(false);
+        setHasInteracted(false);
+      }
+    }, 150);
+  }, [commitInputValue, inputValue, isInsidePicker]);
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (disabled) return;
+
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          if (!isOpen) {
+            open();
+          } else if (!event.altKey) {
+            setHighlightedIndex((prev) =>
+              getNextEnabledIndex(filteredOptions, prev, 1)
+            );
+          }
+          break;
+
+        case 'ArrowUp':
+          event.preventDefault();
+          if (event.altKey) {
+            setIsOpen(false);
+          } else if (!isOpen) {
+            open();
+          } else {
+            setHighlightedIndex((prev) =>
+              getNextEnabledIndex(filteredOptions, prev, -1)
+            );
+          }
+          break;
+
+        case 'Home':
+        case 'End':
+          // Closed, these move the caret as usual
+          if (isOpen) {
+            event.preventDefault();
+            setHighlightedIndex(
+              getNextEnabledIndex(filteredOptions, -1, event.key === 'Home' ? 1 : -1)
+            );
+          }
+          break;
+
+        case 'PageUp':
+        case 'PageDown':
+          event.preventDefault();
+          if (!isOpen) {
+            open();
+          } else {
+            // From the pinned groups, jump to the start of the list (or the top)
+            setHighlightedIndex((prev) =>
+              prev < pinnedCount
+                ? getNextEnabledIndex(
+                    filteredOptions,
+                    event.key === 'PageDown' ? pinnedCount - 1 : -1,
+                    1
+                  )
+                : getIndexAnHourAway(
+                    filteredOptions,
+                    prev,
+                    event.key === 'PageDown' ? 1 : -1,
+                    pinnedCount
+                  )
+            );
+          }
+          break;
+
+        case 'Enter':
+          event.preventDefault();
+          if (isOpen && highlightedIndex >= 0) {
+            selectOption(filteredOptions[highlightedIndex]);
+          } else if (!isOpen) {
+            open();
+          } else {
+            commitInputValue(inputValue);
+            setIsOpen(false);
+          }
+          break;
+
+        case 'Escape':
+          event.preventDefault();
+          if (isOpen) {
+            setIsOpen(false);
+          } else if (inputValue !== focusValueRef.current) {
+            // Undo everything since the field was focused
+            updateInputValue(focusValueRef.current);
+            commitInputValue(focusValueRef.current);
+            setHasInteracted(false);
+          }
+          break;
+
+        case 'Tab':
+          setIsOpen(false);
+          break;
+      }
+    },
+    [
+      disabled,
+      isOpen,
+      open,
+      highlightedIndex,
+      filteredOptions,
+      pinnedCount,
+      selectOption,
+      commitInputValue,
+      updateInputValue,
+      inputValue,
+    ]
+  );
+
+  const selectedTime = parseValue(inputValue);
+  const selectedSeconds = selectedTime ? timeToSeconds(selectedTime) : null;
+
+  const isUnavailable =
+    selectedTime !== null && !isTimeAllowed(snapToGrid(selectedTime));
+
+  const isInvalid =
+    error || (hasInteracted && inputValue !== '' && (!selectedTime || isUnavailable));
+
+  // Forms get a display-independent value for valid, allowed times only
+  const formTime = isTimeControlled
+    ? valueAsTime
+    : selectedTime && !isUnavailable
+      ? toStoredTime(selectedTime)
+      : null;
+  const formValue =
+    typeof valueAsDate === 'string'
+      ? valueAsDate
+      : dateValue
+        ? toISODateTime(dateValue)
+        : formTime
+          ? formatTime(formTime, showSeconds ? 'HH:mm:ss' : 'HH:mm')
+          : '';
+
+  // Report missing and invalid times through native constraint validation
+  const validationMessage =
+    inputValue.trim() === ''
+      ? required
+        ? resolvedMessages.valueMissing
+        : ''
+      : !selectedTime
+        ? resolvedMessages.errorMessage
+        : isUnavailable
+          ? resolvedMessages.timeUnavailable
+          : '';
+
+  useEffect(() => {
+    inputRef.current?.setCustomValidity(validationMessage);
+  }, [validationMessage]);
+
+  const reset = useCallback(() => {
+    if (!usesDraft) return;
+    if (isTimeControlled) {
+      setDraft(formatCommitted(committedSeconds));
+    } else {
+      setDraft(defaultValue ?? '');
+    }
+    setHasInteracted(false);
+    setIsOpen(false);
+  }, [usesDraft, isTimeControlled, committedSeconds, formatCommitted, defaultValue]);
+
+  // Restore the default text when the surrounding form is reset
+  useEffect(() => {
+    const form = inputRef.current?.form;
+    if (!form) return;
+
+    form.addEventListener('reset', reset);
+    return () => form.removeEventListener('reset', reset);
+  }, [reset]);
+
+  const isOptionSelected = useCallback(
+    (option: TimeOption) => selectedSeconds === timeToSeconds(option.time),
+    [selectedSeconds]
+  );
+
+  const getInputProps = useCallback(
+    ({
+      ref,
+      onChange: onInputChange,
+      onFocus,
+      onBlur,
+      onKeyDown,
+      ...props
+    }: InputProps = {}): TimePickerInputProps => ({
+      type: 'text',
+      id,
+      autoComplete: 'off',
+      ...props,
+      placeholder: props.placeholder ?? resolvedMessages.placeholder,
+      ref: (node: HTMLInputElement | null) => {
+        inputRef.current = node;
+        assignRef(ref, node);
+      },
+      value: inputValue,
+      disabled,
+      required,
+      role: 'combobox',
+      'aria-expanded': isOpen,
+      'aria-haspopup': 'listbox',
+      'aria-controls': listboxId,
+      'aria-activedescendant':
+        isOpen && highlightedIndex >= 0 ? getOptionId(highlightedIndex) : undefined,
+      'aria-invalid': isInvalid ? 'true' : undefined,
+      'aria-describedby':
+        [props['aria-describedby'], isInvalid ? errorId : undefined]
+          .filter(Boolean)
+          .join(' ') || undefined,
+      onChange: callAll(handleInputChange, onInputChange),
+      onFocus: callAll<FocusEvent<HTMLInputElement>>(handleInputFocus, onFocus),
+      onBlur: callAll<FocusEvent<HTMLInputElement>>(handleInputBlur, onBlur),
+      onKeyDown: callAll(handleKeyDown, onKeyDown),
+    }),
+    [
+      id,
+      resolvedMessages,
+      inputValue,
+      disabled,
+      required,
+      isOpen,
+      listboxId,
+      highlightedIndex,
+      getOptionId,
+      isInvalid,
+      errorId,
+      handleInputChange,
+      handleInputFocus,
+      handleInputBlur,
+      handleKeyDown,
+    ]
+  );
+
+  const getListboxProps = useCallback(
+    ({ ref, ...props }: ListboxProps = {}): ListboxPropsResult => ({
+      'aria-label': resolvedMessages.listboxLabel,
+      ...props,
+      ref: (node: HTMLElement | null) => {
+        listboxRef.current = node;
+        assignRef(ref, node);
+      },
+      id: listboxId,
+      role: 'listbox',
+    }),
+    [resolvedMessages, listboxId]
+  );
+
+  const getOptionProps = useCallback(
+    ({
+      option,
+      index,
+      onMouseDown,
+      onMouseEnter,
+      ...props
+    }: OptionProps): HTMLAttributes<HTMLElement> => ({
+      ...props,
+      id: getOptionId(index),
+      role: 'option',
+      'aria-selected': highlightedIndex === index,
+      'aria-disabled': option.disabled ? 'true' : undefined,
+      onMouseDown: callAll((event: MouseEvent<HTMLElement>) => {
+        // Keep focus in the input
+        event.preventDefault();
+        if (!option.disabled) {
+          selectOption(option);
+        }
+      }, onMouseDown),
+      onMouseEnter: callAll(() => {
+        if (!option.disabled) {
+          setHighlightedIndex(index);
+        }
+      }, onMouseEnter),
+    }),
+    [getOptionId, highlightedIndex, selectOption]
+  );
+
+  const getGroupProps = useCallback(
+    (group: TimeOptionGroup, props: HTMLAttributes<HTMLElement> = {}) => ({
+      ...props,
+      role: 'group',
+      'aria-labelledby': `${listboxId}-${group}-label`,
+    }),
+    [listboxId]
+  );
+
+  const getGroupLabelProps = useCallback(
+    (group: TimeOptionGroup, props: HTMLAttributes<HTMLElement> = {}) => ({
+      ...props,
+      id: `${listboxId}-${group}-label`,
+      role: 'presentation',
+    }),
+    [listboxId]
+  );
+
+  return {
+    isOpen,
+    highlightedIndex,
+    inputValue,
+    options: timeOptions,
+    filteredOptions,
+    nowOption,
+    favoriteOptions,
+    recentOptions,
+    selectedTime,
+    isInvalid,
+    isUnavailable,
+    formValue,
+    validationMessage,
+    errorId,
+    announcement,
+    messages: resolvedMessages,
+    timeZoneName,
+    formatValue,
+    hourCycle: resolvedHourCycle,
+    parseValue,
+    open,
+    close,
+    setHighlightedIndex,
+    selectOption,
+    selectTime,
+    clear,
+    reset,
+    focus,
+    scrollToTime,
+    isOptionSelected,
+    getInputProps,
+    getListboxProps,
+    getOptionProps,
+    getGroupProps,
+    getGroupLabelProps,
+  };
+}
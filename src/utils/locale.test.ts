@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { formatLocalizedTime, parseLocalizedTime, getMessages } from './locale';
+
+describe('formatLocalizedTime', () => {
+    it('uses the locale clock by default', () => {
+        expect(formatLocalizedTime({ hours: 14, minutes: 30 }, 'de')).toBe('14:30');
+        expect(formatLocalizedTime({ hours: 14, minutes: 30 }, 'ja')).toBe('14:30');
+        expect(formatLocalizedTime({ hours: 14, minutes: 30 }, 'en-US')).toMatch(/^2:30\sPM$/);
+    });
+
+    it('honors an explicit hour cycle', () => {
+        expect(
+            formatLocalizedTime({ hours: 14, minutes: 30 }, 'ja', { hourCycle: 12 })
+        ).toBe('午後2:30');
+        expect(
+            formatLocalizedTime({ hours: 14, minutes: 30 }, 'en-US', { hourCycle: 24 })
+        ).toBe('14:30');
+    });
+
+    it('includes seconds when requested', () => {
+        expect(
+            formatLocalizedTime({ hours: 14, minutes: 5, seconds: 7 }, 'de', {
+                showSeconds: true,
+            })
+        ).toBe('14:05:07');
+    });
+});
+
+describe('parseLocalizedTime', () => {
+    it('parses localized day-period markers', () => {
+        expect(parseLocalizedTime('午後2:30', 'ja')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseLocalizedTime('午前12:15', 'ja')).toEqual({ hours: 0, minutes: 15 });
+        expect(parseLocalizedTime('3:30 nachm.', 'de')).toEqual({ hours: 15, minutes: 30 });
+        expect(parseLocalizedTime('9:00 vorm.', 'de')).toEqual({ hours: 9, minutes: 0 });
+        expect(parseLocalizedTime('3:30 م', 'ar')).toEqual({ hours: 15, minutes: 30 });
+    });
+
+    it('parses localized digits', () => {
+        expect(parseLocalizedTime('٣:٣٠ م', 'ar-EG')).toEqual({ hours: 15, minutes: 30 });
+    });
+
+    it('round-trips formatLocalizedTime output', () => {
+        for (const locale of ['de', 'ja', 'ar', 'ar-EG', 'en-US', 'es']) {
+            for (const hourCycle of [12, 24] as const) {
+                const time = { hours: 15, minutes: 45 };
+                const text = formatLocalizedTime(time, locale, { hourCycle });
+                expect(parseLocalizedTime(text, locale)).toEqual(time);
+            }
+        }
+    });
+
+    it('falls back to parseTime', () => {
+        expect(parseLocalizedTime('2:30pm', 'de')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseLocalizedTime('14:30', 'ja')).toEqual({ hours: 14, minutes: 30 });
+    });
+
+    it('returns null for invalid times', () => {
+        expect(parseLocalizedTime('invalid', 'de')).toBeNull();
+        expect(parseLocalizedTime('午後15:30', 'ja')).toBeNull();
+    });
+});
+
+describe('getMessages', () => {
+    it('returns translated strings with language fallback', () => {
+        expect(getMessages('de').placeholder).toBe('Uhrzeit wählen');
+        expect(getMessages('de-AT').placeholder).toBe('Uhrzeit wählen');
+        expect(getMessages('ja-JP').errorMessage).toBe('有効な時刻を入力してください');
+    });
+
+    it('falls back to English', () => {
+        expect(getMessages().placeholder).toBe('Select time');
+        expect(getMessages('xx').placeholder).toBe('Select time');
+    });
+
+    it('pluralizes the result count announcement', () => {
+        expect(getMessages().resultsAvailable(1)).toBe('1 time available');
+        expect(getMessages().resultsAvailable(12)).toBe('12 times available');
+        expect(getMessages('de').resultsAvailable(3)).toBe('3 Uhrzeiten verfügbar');
+    });
+
+    it('applies overrides', () => {
+        expect(getMessages('de', { placeholder: 'Zeit' })).toEqual({
+            ...getMessages('de'),
+            placeholder: 'Zeit',
+        });
+    });
+});
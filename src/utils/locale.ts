@@ -0,0 +1,387 @@
+/**
+ * Locale utilities using native Intl APIs
+ * Formatting, day-period parsing and translated default strings
+ */
+
+import { parseTime, type TimeValue } from './time';
+
+export interface LocalizedFormatOptions {
+    /** Force a 12- or 24-hour clock (default: the locale's preference) */
+    hourCycle?: 12 | 24;
+    /** Include seconds (default: false) */
+    showSeconds?: boolean;
+}
+
+export interface TimePickerMessages {
+    /** Input placeholder text */
+    placeholder: string;
+    /** Error shown when the input is not a valid time */
+    errorMessage: string;
+    /** Error shown when the input is a disabled time */
+    timeUnavailable: string;
+    /** Validation message when a required picker is empty */
+    valueMissing: string;
+    /** Accessible label for the list of options */
+    listboxLabel: string;
+    /** Badge for options that fall on the next day */
+    nextDay: string;
+    /** Label of the pinned option that picks the current time */
+    now: string;
+    /** Labels of the pinned groups above the options */
+    favorites: string;
+    recent: string;
+    /** Accessible labels for the segments in segmented mode */
+    hoursLabel: string;
+    minutesLabel: string;
+    secondsLabel: string;
+    periodLabel: string;
+    /** Announced while filtering: how many options match the input */
+    resultsAvailable: (count: number) => string;
+    /** Announced when no option matches the input */
+    noResults: string;
+    /** Announced after a time is picked */
+    timeSelected: (time: string) => string;
+    /** Accessible label for the start input of a range */
+    rangeStartLabel: string;
+    /** Accessible label for the end input of a range */
+    rangeEndLabel: string;
+    /** Error shown when a range ends at or before its start */
+    rangeEndBeforeStart: string;
+    /** Error shown when a range is shorter than the minimum duration */
+    rangeTooShort: (minDuration: string) => string;
+    /** Error shown when a range is longer than the maximum duration */
+    rangeTooLong: (maxDuration: string) => string;
+}
+
+const MESSAGES: Record<string, TimePickerMessages> = {
+    en: {
+        placeholder: 'Select time',
+        errorMessage: 'Please enter a valid time',
+        timeUnavailable: 'This time is not available',
+        valueMissing: 'Please select a time',
+        listboxLabel: 'Time options',
+        nextDay: '+1 day',
+        now: 'Now',
+        favorites: 'Favorites',
+        recent: 'Recent',
+        hoursLabel: 'Hours',
+        minutesLabel: 'Minutes',
+        secondsLabel: 'Seconds',
+        periodLabel: 'AM/PM',
+        resultsAvailable: (count) =>
+            count === 1 ? '1 time available' : `${count} times available`,
+        noResults: 'No matching times',
+        timeSelected: (time) => `${time} selected`,
+        rangeStartLabel: 'Start time',
+        rangeEndLabel: 'End time',
+        rangeEndBeforeStart: 'End time must be after start time',
+        rangeTooShort: (min) => `Must be at least ${min}`,
+        rangeTooLong: (max) => `Must be at most ${max}`,
+    },
+    de: {
+        placeholder: 'Uhrzeit wählen',
+        errorMessage: 'Bitte geben Sie eine gültige Uhrzeit ein',
+        timeUnavailable: 'Diese Uhrzeit ist nicht verfügbar',
+        valueMissing: 'Bitte wählen Sie eine Uhrzeit',
+        listboxLabel: 'Uhrzeiten',
+        nextDay: '+1 Tag',
+        now: 'Jetzt',
+        favorites: 'Favoriten',
+        recent: 'Zuletzt verwendet',
+        hoursLabel: 'Stunden',
+        minutesLabel: 'Minuten',
+        secondsLabel: 'Sekunden',
+        periodLabel: 'Vormittag/Nachmittag',
+        resultsAvailable: (count) =>
+            count === 1 ? '1 Uhrzeit verfügbar' : `${count} Uhrzeiten verfügbar`,
+        noResults: 'Keine passenden Uhrzeiten',
+        timeSelected: (time) => `${time} ausgewählt`,
+        rangeStartLabel: 'Startzeit',
+        rangeEndLabel: 'Endzeit',
+        rangeEndBeforeStart: 'Die Endzeit muss nach der Startzeit liegen',
+        rangeTooShort: (min) => `Mindestens ${min}`,
+        rangeTooLong: (max) => `Höchstens ${max}`,
+    },
+    fr: {
+        placeholder: 'Choisir une heure',
+        errorMessage: 'Veuillez saisir une heure valide',
+        timeUnavailable: "Cette heure n'est pas disponible",
+        valueMissing: 'Veuillez choisir une heure',
+        listboxLabel: 'Heures disponibles',
+        nextDay: '+1 jour',
+        now: 'Maintenant',
+        favorites: 'Favoris',
+        recent: 'Récents',
+        hoursLabel: 'Heures',
+        minutesLabel: 'Minutes',
+        secondsLabel: 'Secondes',
+        periodLabel: 'AM/PM',
+        resultsAvailable: (count) =>
+            count === 1 ? '1 heure disponible' : `${count} heures disponibles`,
+        noResults: 'Aucune heure correspondante',
+        timeSelected: (time) => `${time} sélectionnée`,
+        rangeStartLabel: 'Heure de début',
+        rangeEndLabel: 'Heure de fin',
+        rangeEndBeforeStart: "L'heure de fin doit être après l'heure de début",
+        rangeTooShort: (min) => `Au moins ${min}`,
+        rangeTooLong: (max) => `Au plus ${max}`,
+    },
+    es: {
+        placeholder: 'Seleccionar hora',
+        errorMessage: 'Introduce una hora válida',
+        timeUnavailable: 'Esta hora no está disponible',
+        valueMissing: 'Selecciona una hora',
+        listboxLabel: 'Opciones de hora',
+        nextDay: '+1 día',
+        now: 'Ahora',
+        favorites: 'Favoritos',
+        recent: 'Recientes',
+        hoursLabel: 'Horas',
+        minutesLabel: 'Minutos',
+        secondsLabel: 'Segundos',
+        periodLabel: 'a. m./p. m.',
+        resultsAvailable: (count) =>
+            count === 1 ? '1 hora disponible' : `${count} horas disponibles`,
+        noResults: 'No hay horas que coincidan',
+        timeSelected: (time) => `${time} seleccionada`,
+        rangeStartLabel: 'Hora de inicio',
+        rangeEndLabel: 'Hora de fin',
+        rangeEndBeforeStart: 'La hora de fin debe ser posterior a la de inicio',
+        rangeTooShort: (min) => `Debe durar al menos ${min}`,
+        rangeTooLong: (max) => `Debe durar como máximo ${max}`,
+    },
+    ja: {
+        placeholder: '時刻を選択',
+        errorMessage: '有効な時刻を入力してください',
+        timeUnavailable: 'この時刻は選択できません',
+        valueMissing: '時刻を選択してください',
+        listboxLabel: '時刻の候補',
+        nextDay: '翌日',
+        now: '現在時刻',
+        favorites: 'お気に入り',
+        recent: '最近使用',
+        hoursLabel: '時',
+        minutesLabel: '分',
+        secondsLabel: '秒',
+        periodLabel: '午前/午後',
+        resultsAvailable: (count) => `${count}件の時刻があります`,
+        noResults: '一致する時刻はありません',
+        timeSelected: (time) => `${time}を選択しました`,
+        rangeStartLabel: '開始時刻',
+        rangeEndLabel: '終了時刻',
+        rangeEndBeforeStart: '終了時刻は開始時刻より後にしてください',
+        rangeTooShort: (min) => `${min}以上にしてください`,
+        rangeTooLong: (max) => `${max}以内にしてください`,
+    },
+    ar: {
+        placeholder: 'اختر الوقت',
+        errorMessage: 'يرجى إدخال وقت صالح',
+        timeUnavailable: 'هذا الوقت غير متاح',
+        valueMissing: 'يرجى اختيار وقت',
+        listboxLabel: 'خيارات الوقت',
+        nextDay: '+1 يوم',
+        now: 'الآن',
+        favorites: 'المفضلة',
+        recent: 'المستخدمة مؤخرًا',
+        hoursLabel: 'الساعات',
+        minutesLabel: 'الدقائق',
+        secondsLabel: 'الثواني',
+        periodLabel: 'ص/م',
+        resultsAvailable: (count) => `عدد الأوقات المتاحة: ${count}`,
+        noResults: 'لا توجد أوقات مطابقة',
+        timeSelected: (time) => `تم اختيار ${time}`,
+        rangeStartLabel: 'وقت البدء',
+        rangeEndLabel: 'وقت الانتهاء',
+        rangeEndBeforeStart: 'يجب أن يكون وقت الانتهاء بعد وقت البدء',
+        rangeTooShort: (min) => `يجب ألا تقل المدة عن ${min}`,
+        rangeTooLong: (max) => `يجب ألا تزيد المدة عن ${max}`,
+    },
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+const digitCache = new Map<string, Map<string, string>>();
+const dayPeriodCache = new Map<string, Array<[string, Set<number>]>>();
+
+function getFormatter(
+    locale: string,
+    options: Intl.DateTimeFormatOptions
+): Intl.DateTimeFormat {
+    const key = `${locale}|${JSON.stringify(options)}`;
+    let formatter = formatterCache.get(key);
+
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' });
+        formatterCache.set(key, formatter);
+    }
+
+    return formatter;
+}
+
+function toUTCDate(time: TimeValue): Date {
+    return new Date(
+        Date.UTC(1970, 0, 1, time.hours, time.minutes, time.seconds ?? 0)
+    );
+}
+
+/**
+ * Map the locale's digits (e.g. Arabic-Indic "٣") to ASCII digits
+ */
+function getDigitMap(locale: string): Map<string, string> {
+    let digits = digitCache.get(locale);
+
+    if (!digits) {
+        const numberFormat = new Intl.NumberFormat(locale, { useGrouping: false });
+        digits = new Map();
+        for (let digit = 0; digit <= 9; digit++) {
+            digits.set(numberFormat.format(digit), digit.toString());
+        }
+        digitCache.set(locale, digits);
+    }
+
+    return digits;
+}
+
+function normalizeInput(text: string, locale: string): string {
+    const digits = getDigitMap(locale);
+
+    return Array.from(text.toLowerCase().replace(/\s/g, ''))
+        .map((char) => digits.get(char) ?? char)
+        .join('');
+}
+
+/**
+ * Collect the locale's day-period markers ("午後", "nachm.", ...) along with
+ * the hours (0-23) each one is used for, longest marker first
+ */
+function getDayPeriods(locale: string): Array<[string, Set<number>]> {
+    let periods = dayPeriodCache.get(locale);
+
+    if (!periods) {
+        const markers = new Map<string, Set<number>>();
+
+        for (const dayPeriod of [undefined, 'narrow', 'short', 'long'] as const) {
+            const formatter = getFormatter(locale, {
+                hour: 'numeric',
+                hourCycle: 'h12',
+                dayPeriod,
+            });
+
+            for (let hours = 0; hours < 24; hours++) {
+                const part = formatter
+                    .formatToParts(toUTCDate({ hours, minutes: 0 }))
+                    .find(({ type }) => type === 'dayPeriod');
+                if (!part) continue;
+
+                const marker = normalizeInput(part.value, locale);
+                markers.set(marker, (markers.get(marker) ?? new Set()).add(hours));
+            }
+        }
+
+        periods = [...markers].sort(([a], [b]) => b.length - a.length);
+        dayPeriodCache.set(locale, periods);
+    }
+
+    return periods;
+}
+
+/**
+ * Format a TimeValue for a locale, e.g. "14:30" (de) or "午後2:30" (ja)
+ */
+export function formatLocalizedTime(
+    time: TimeValue,
+    locale: string,
+    { hourCycle, showSeconds = false }: LocalizedFormatOptions = {}
+): string {
+    const formatter = getFormatter(locale, {
+        hour: 'numeric',
+        minute: '2-digit',
+        second: showSeconds ? '2-digit' : undefined,
+        hourCycle: hourCycle === undefined ? undefined : hourCycle === 24 ? 'h23' : 'h12',
+    });
+
+    return formatter.format(toUTCDate(time));
+}
+
+/**
+ * The hour cycle a locale writes times in, e.g. 24 for "de" and 12 for "en-US"
+ */
+export function getLocaleHourCycle(locale: string): 12 | 24 {
+    const { hourCycle } = getFormatter(locale, { hour: 'numeric' }).resolvedOptions();
+    return hourCycle === 'h11' || hourCycle === 'h12' ? 12 : 24;
+}
+
+/**
+ * The locale's names for the morning and afternoon halves of a 12-hour
+ * clock, e.g. ["AM", "PM"] or ["午前", "午後"]
+ */
+export function getDayPeriodNames(locale: string): [string, string] {
+    const formatter = getFormatter(locale, { hour: 'numeric', hourCycle: 'h12' });
+    const [am, pm] = [0, 12].map(
+        (hours) =>
+            formatter
+                .formatToParts(toUTCDate({ hours, minutes: 0 }))
+                .find(({ type }) => type === 'dayPeriod')?.value
+    );
+
+    return [am ?? 'AM', pm ?? 'PM'];
+}
+
+/**
+ * Parse a time string written for a locale. Understands localized digits
+ * and day-period markers such as "午後3:30" or "3:30 nachm.", and falls
+ * back to parseTime for everything else.
+ */
+export function parseLocalizedTime(
+    timeStr: string,
+    locale: string
+): TimeValue | null {
+    const normalized = normalizeInput(timeStr, locale);
+    const time = parseTime(normalized);
+
+    if (time) {
+        return time;
+    }
+
+    for (const [marker, markerHours] of getDayPeriods(locale)) {
+        if (!normalized.includes(marker)) continue;
+
+        const time12 = parseTime(normalized.replace(marker, ''));
+        if (!time12 || time12.hours < 1 || time12.hours > 12) {
+            return null;
+        }
+
+        // Prefer the hour the marker is actually used for; otherwise fall
+        // back to its half of the day (e.g. "9 vorm." where CLDR says "morgens")
+        const am = time12.hours % 12;
+        const hours = [am, am + 12].find((h) => markerHours.has(h));
+        if (hours !== undefined) {
+            return { ...time12, hours };
+        }
+
+        const periodHours = [...markerHours];
+        if (periodHours.every((h) => h < 12)) {
+            return { ...time12, hours: am };
+        }
+        if (periodHours.every((h) => h >= 12)) {
+            return { ...time12, hours: am + 12 };
+        }
+
+        return null;
+    }
+
+    return null;
+}
+
+/**
+ * Get the default strings for a locale ("de-AT" falls back to "de",
+ * unknown locales to English), with optional overrides applied
+ */
+export function getMessages(
+    locale?: string,
+    overrides?: Partial<TimePickerMessages>
+): TimePickerMessages {
+    const tag = locale?.toLowerCase() ?? 'en';
+    const messages = MESSAGES[tag] ?? MESSAGES[tag.split('-')[0]] ?? MESSAGES.en;
+
+    return { ...messages, ...overrides };
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getDropdownPosition } from './position';
+
+const viewport = { width: 1024, height: 768 };
+
+describe('getDropdownPosition', () => {
+    it('places the dropdown below the anchor', () => {
+        const anchor = { top: 100, left: 50, width: 200, height: 40 };
+
+        expect(getDropdownPosition(anchor, 240, viewport)).toEqual({
+            top: 144,
+            left: 50,
+            width: 200,
+            maxHeight: 768 - 140 - 4,
+            placement: 'bottom',
+        });
+    });
+
+    it('flips above when there is no room below', () => {
+        const anchor = { top: 700, left: 50, width: 200, height: 40 };
+        const position = getDropdownPosition(anchor, 240, viewport);
+
+        expect(position.placement).toBe('top');
+        expect(position.top).toBe(700 - 4 - 240);
+        expect(position.maxHeight).toBe(696);
+    });
+
+    it('stays below when there is even less room above', () => {
+        const anchor = { top: 60, left: 50, width: 200, height: 40 };
+        const position = getDropdownPosition(anchor, 240, { width: 1024, height: 200 });
+
+        expect(position.placement).toBe('bottom');
+        expect(position.top).toBe(104);
+        expect(position.maxHeight).toBe(96);
+    });
+
+    it('shrinks a flipped dropdown to the room above', () => {
+        const anchor = { top: 150, left: 50, width: 200, height: 40 };
+        const position = getDropdownPosition(anchor, 240, { width: 1024, height: 200 });
+
+        expect(position.placement).toBe('top');
+        expect(position.maxHeight).toBe(146);
+        expect(position.top).toBe(0);
+    });
+
+    it('shifts back into the viewport horizontally', () => {
+        expect(
+            getDropdownPosition({ top: 100, left: 900, width: 200, height: 40 }, 240, viewport)
+                .left
+        ).toBe(824);
+        expect(
+            getDropdownPosition({ top: 100, left: -30, width: 200, height: 40 }, 240, viewport)
+                .left
+        ).toBe(0);
+    });
+});
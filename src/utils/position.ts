@@ -0,0 +1,49 @@
+/**
+ * Positioning for dropdowns rendered outside the picker (in a portal)
+ * All coordinates are viewport-relative, as from getBoundingClientRect
+ */
+
+export interface AnchorRect {
+    top: number;
+    left: number;
+    width: number;
+    height: number;
+}
+
+export interface DropdownPosition {
+    top: number;
+    left: number;
+    width: number;
+    /** Room available on the chosen side */
+    maxHeight: number;
+    placement: 'top' | 'bottom';
+}
+
+/**
+ * Place a dropdown below its anchor, flipping above when it doesn't fit
+ * and there is more room there, and shifting it sideways to stay within
+ * the viewport
+ */
+export function getDropdownPosition(
+    anchor: AnchorRect,
+    dropdownHeight: number,
+    viewport: { width: number; height: number },
+    offset: number = 4
+): DropdownPosition {
+    const spaceBelow = viewport.height - (anchor.top + anchor.height) - offset;
+    const spaceAbove = anchor.top - offset;
+
+    const placement =
+        dropdownHeight > spaceBelow && spaceAbove > spaceBelow ? 'top' : 'bottom';
+    const maxHeight = Math.max(0, placement === 'top' ? spaceAbove : spaceBelow);
+    const height = Math.min(dropdownHeight, maxHeight);
+
+    const width = Math.min(anchor.width, viewport.width);
+    const left = Math.max(0, Math.min(anchor.left, viewport.width - width));
+    const top =
+        placement === 'top'
+            ? anchor.top - offset - height
+            : anchor.top + anchor.height + offset;
+
+    return { top, left, width, maxHeight, placement };
+}
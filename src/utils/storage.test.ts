@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    createLocalStorageAdapter,
+    addRecentTime,
+    DEFAULT_RECENT_STORAGE_KEY,
+} from './storage';
+
+describe('createLocalStorageAdapter', () => {
+    beforeEach(() => {
+        window.localStorage.clear();
+    });
+
+    it('round-trips times under the default key', () => {
+        const storage = createLocalStorageAdapter();
+
+        storage.save(['14:30', '09:00']);
+
+        expect(window.localStorage.getItem(DEFAULT_RECENT_STORAGE_KEY)).toBe('["14:30","09:00"]');
+        expect(storage.load()).toEqual(['14:30', '09:00']);
+    });
+
+    it('keeps separate lists per key', () => {
+        createLocalStorageAdapter('start').save(['08:00']);
+
+        expect(createLocalStorageAdapter('end').load()).toEqual([]);
+    });
+
+    it('ignores malformed data', () => {
+        window.localStorage.setItem('broken', '{not json');
+        window.localStorage.setItem('object', '{"time":"09:00"}');
+        window.localStorage.setItem('mixed', '["09:00",5,null]');
+
+        expect(createLocalStorageAdapter('broken').load()).toEqual([]);
+        expect(createLocalStorageAdapter('object').load()).toEqual([]);
+        expect(createLocalStorageAdapter('mixed').load()).toEqual(['09:00']);
+    });
+
+    it('does not throw when storage is unavailable', () => {
+        const setItem = vi
+            .spyOn(Storage.prototype, 'setItem')
+            .mockImplementation(() => {
+                throw new Error('QuotaExceededError');
+            });
+
+        expect(() => createLocalStorageAdapter().save(['09:00'])).not.toThrow();
+        setItem.mockRestore();
+    });
+});
+
+describe('addRecentTime', () => {
+    it('puts the time first, without duplicates, up to the limit', () => {
+        expect(addRecentTime(['09:00', '10:00'], '11:00', 3)).toEqual(['11:00', '09:00', '10:00']);
+        expect(addRecentTime(['09:00', '10:00'], '10:00', 3)).toEqual(['10:00', '09:00']);
+        expect(addRecentTime(['09:00', '10:00', '11:00'], '12:00', 3)).toEqual([
+            '12:00',
+            '09:00',
+            '10:00',
+        ]);
+    });
+});
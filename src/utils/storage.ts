@@ -0,0 +1,50 @@
+/**
+ * Storage utilities for remembering recently picked times
+ */
+
+/**
+ * Where recently picked times are kept between visits. Times are stored as
+ * "HH:mm" (or "HH:mm:ss") strings, most recent first.
+ */
+export interface RecentTimesStorage {
+    load: () => string[];
+    save: (times: string[]) => void;
+}
+
+export const DEFAULT_RECENT_STORAGE_KEY = 'react-nano-timepicker:recent';
+
+/**
+ * Keep recent times in localStorage under `key`. Reads and writes fail
+ * silently where storage is unavailable, e.g. during SSR or in private mode.
+ */
+export function createLocalStorageAdapter(
+    key: string = DEFAULT_RECENT_STORAGE_KEY
+): RecentTimesStorage {
+    return {
+        load: () => {
+            try {
+                const parsed: unknown = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+                return Array.isArray(parsed)
+                    ? parsed.filter((time): time is string => typeof time === 'string')
+                    : [];
+            } catch {
+                return [];
+            }
+        },
+        save: (times) => {
+            try {
+                window.localStorage.setItem(key, JSON.stringify(times));
+            } catch {
+                // Storage is full or disabled; recent times just aren't kept
+            }
+        },
+    };
+}
+
+/**
+ * Add a time to the front of a recent list, dropping an earlier copy and
+ * anything beyond `limit`
+ */
+export function addRecentTime(times: string[], time: string, limit: number): string[] {
+    return [time, ...times.filter((recent) => recent !== time)].slice(0, Math.max(0, limit));
+}
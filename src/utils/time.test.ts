@@ -1,12 +1,35 @@
 import { describe, it, expect } from 'vitest';
 import {
     parseTime,
+    createTimeParser,
     formatTime,
     generateTimeRange,
+    generateTimeOptions,
+    toTimeOptions,
+    mergeTimeOptions,
+    excludeTimeRanges,
+    snapTime,
+    isTimeInRange,
     isValidTime,
     filterTimesByInput,
     cleanTimeString,
     timeToMinutes,
+    minutesToTime,
+    timeToSeconds,
+    secondsToTime,
+    isSameTime,
+    isTimeDisabled,
+    getDurationMinutes,
+    formatDuration,
+    convertTimeZone,
+    zonedTimeToDate,
+    getZonedTime,
+    getTimeZoneOffset,
+    getTimeZoneName,
+    toISOTime,
+    fromISOTime,
+    toISODateTime,
+    applyTimeToDate,
 } from './time';
 
 describe('parseTime', () => {
@@ -24,6 +47,14 @@ describe('parseTime', () => {
         expect(parseTime('23:59')).toEqual({ hours: 23, minutes: 59 });
     });
 
+    it('parses times with seconds', () => {
+        expect(parseTime('14:30:15')).toEqual({ hours: 14, minutes: 30, seconds: 15 });
+        expect(parseTime('2:30:15pm')).toEqual({ hours: 14, minutes: 30, seconds: 15 });
+        expect(parseTime('12:00:59am')).toEqual({ hours: 0, minutes: 0, seconds: 59 });
+        expect(parseTime('14:30:60')).toBeNull();
+        expect(parseTime('2:30:1pm')).toBeNull();
+    });
+
     it('handles whitespace', () => {
         expect(parseTime(' 2:30pm ')).toEqual({ hours: 14, minutes: 30 });
         expect(parseTime('2 : 30 pm')).toEqual({ hours: 14, minutes: 30 }); // Strips all spaces
@@ -36,6 +67,64 @@ describe('parseTime', () => {
         expect(parseTime('13:00am')).toBeNull();
         expect(parseTime('')).toBeNull();
     });
+
+    it('parses shorthand input', () => {
+        expect(parseTime('230p')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseTime('2pm')).toEqual({ hours: 14, minutes: 0 });
+        expect(parseTime('9a')).toEqual({ hours: 9, minutes: 0 });
+        expect(parseTime('2.30 pm')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseTime('2:30 p.m.')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseTime('14h30')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseTime('14h')).toEqual({ hours: 14, minutes: 0 });
+        expect(parseTime('1430')).toEqual({ hours: 14, minutes: 30 });
+        expect(parseTime('930')).toEqual({ hours: 9, minutes: 30 });
+        expect(parseTime('14')).toEqual({ hours: 14, minutes: 0 });
+    });
+
+    it('parses named times', () => {
+        expect(parseTime('noon')).toEqual({ hours: 12, minutes: 0 });
+        expect(parseTime('Midday')).toEqual({ hours: 12, minutes: 0 });
+        expect(parseTime('midnight')).toEqual({ hours: 0, minutes: 0 });
+    });
+
+    it('rejects out-of-range shorthand', () => {
+        expect(parseTime('13p')).toBeNull();
+        expect(parseTime('0am')).toBeNull();
+        expect(parseTime('2460')).toBeNull();
+        expect(parseTime('12345')).toBeNull();
+        expect(parseTime('24h')).toBeNull();
+        expect(parseTime('pm')).toBeNull();
+    });
+});
+
+describe('createTimeParser', () => {
+    it('resolves aliases before parsing', () => {
+        const parse = createTimeParser({
+            aliases: { lunch: '12:30pm', 'end of day': { hours: 17, minutes: 0 } },
+        });
+
+        expect(parse('Lunch')).toEqual({ hours: 12, minutes: 30 });
+        expect(parse('end of day')).toEqual({ hours: 17, minutes: 0 });
+        expect(parse('230p')).toEqual({ hours: 14, minutes: 30 });
+    });
+
+    it('tries custom parsers in order before the fallback', () => {
+        const parse = createTimeParser({
+            parsers: [
+                (text) => (text === 'now' ? { hours: 8, minutes: 15 } : null),
+                (text) => (text === 'now' ? { hours: 9, minutes: 0 } : null),
+            ],
+        });
+
+        expect(parse('now')).toEqual({ hours: 8, minutes: 15 });
+        expect(parse('2pm')).toEqual({ hours: 14, minutes: 0 });
+        expect(parse('later')).toBeNull();
+    });
+
+    it('uses a custom fallback', () => {
+        const parse = createTimeParser({ fallback: () => null });
+        expect(parse('2pm')).toBeNull();
+    });
 });
 
 describe('formatTime', () => {
@@ -46,6 +135,38 @@ describe('formatTime', () => {
         expect(formatTime({ hours: 23, minutes: 59 })).toBe('11:59pm');
         expect(formatTime({ hours: 9, minutes: 5 })).toBe('9:05am');
     });
+
+    it('formats times with a 24-hour format spec', () => {
+        expect(formatTime({ hours: 14, minutes: 30 }, 'HH:mm')).toBe('14:30');
+        expect(formatTime({ hours: 9, minutes: 5 }, 'HH:mm')).toBe('09:05');
+        expect(formatTime({ hours: 9, minutes: 5 }, 'H:mm')).toBe('9:05');
+        expect(formatTime({ hours: 0, minutes: 0 }, 'HH:mm')).toBe('00:00');
+    });
+
+    it('formats times with custom 12-hour format specs', () => {
+        expect(formatTime({ hours: 14, minutes: 30 }, 'h:mm A')).toBe('2:30 PM');
+        expect(formatTime({ hours: 9, minutes: 5 }, 'hh:mma')).toBe('09:05am');
+        expect(formatTime({ hours: 0, minutes: 15 }, 'h:mm a')).toBe('12:15 am');
+    });
+
+    it('formats seconds', () => {
+        expect(formatTime({ hours: 14, minutes: 30, seconds: 5 }, 'h:mm:ssa')).toBe('2:30:05pm');
+        expect(formatTime({ hours: 14, minutes: 30, seconds: 5 }, 'HH:mm:ss')).toBe('14:30:05');
+        expect(formatTime({ hours: 14, minutes: 30 }, 'HH:mm:ss')).toBe('14:30:00');
+    });
+
+    it('round-trips through parseTime for every supported format', () => {
+        const formats = ['h:mma', 'HH:mm', 'H:mm', 'h:mm A', 'hh:mm a'];
+        for (const format of formats) {
+            for (const time of [
+                { hours: 0, minutes: 0 },
+                { hours: 12, minutes: 30 },
+                { hours: 23, minutes: 59 },
+            ]) {
+                expect(parseTime(formatTime(time, format))).toEqual(time);
+            }
+        }
+    });
 });
 
 describe('timeToMinutes', () => {
@@ -57,6 +178,128 @@ describe('timeToMinutes', () => {
     });
 });
 
+describe('minutesToTime', () => {
+    it('converts minutes back to a time value', () => {
+        expect(minutesToTime(0)).toEqual({ hours: 0, minutes: 0 });
+        expect(minutesToTime(90)).toEqual({ hours: 1, minutes: 30 });
+        expect(minutesToTime(1439)).toEqual({ hours: 23, minutes: 59 });
+    });
+
+    it('is the inverse of timeToMinutes', () => {
+        const time = { hours: 14, minutes: 45 };
+        expect(minutesToTime(timeToMinutes(time))).toEqual(time);
+    });
+});
+
+describe('generateTimeOptions', () => {
+    it('returns options with parsed times', () => {
+        expect(generateTimeOptions('9:00am', '10:00am', 60)).toEqual([
+            { value: '9:00am', time: { hours: 9, minutes: 0, seconds: 0 } },
+            { value: '10:00am', time: { hours: 10, minutes: 0, seconds: 0 } },
+        ]);
+    });
+
+    it('wraps past midnight when enabled', () => {
+        const options = generateTimeOptions('10:00pm', '1:00am', 60, 'h:mma', {
+            wrap: true,
+        });
+
+        expect(options.map((option) => option.value)).toEqual([
+            '10:00pm',
+            '11:00pm',
+            '12:00am',
+            '1:00am',
+        ]);
+        expect(options.map((option) => option.nextDay ?? false)).toEqual([
+            false,
+            false,
+            true,
+            true,
+        ]);
+    });
+
+    it('does not wrap by default', () => {
+        expect(generateTimeOptions('10:00pm', '1:00am', 60)).toEqual([]);
+    });
+});
+
+describe('toTimeOptions', () => {
+    it('parses and formats string options', () => {
+        expect(toTimeOptions(['4:45pm', '09:00', 'nope'], 'HH:mm')).toEqual([
+            { value: '16:45', time: { hours: 16, minutes: 45 } },
+            { value: '09:00', time: { hours: 9, minutes: 0 } },
+        ]);
+    });
+
+    it('keeps labels and metadata on option objects', () => {
+        expect(
+            toTimeOptions([{ value: '9:00am', label: 'Opening', meta: { seats: 3 } }])
+        ).toEqual([
+            {
+                value: '9:00am',
+                label: 'Opening',
+                meta: { seats: 3 },
+                time: { hours: 9, minutes: 0 },
+            },
+        ]);
+    });
+});
+
+describe('mergeTimeOptions', () => {
+    it('merges lists chronologically without duplicates', () => {
+        const morning = generateTimeOptions('9:00am', '10:00am', 15);
+        const afternoon = generateTimeOptions('1:00pm', '2:00pm', 30);
+        const fixed = toTimeOptions(['10:00am', '11:45am']);
+
+        expect(
+            mergeTimeOptions(afternoon, fixed, morning).map((option) => option.value)
+        ).toEqual([
+            '9:00am',
+            '9:15am',
+            '9:30am',
+            '9:45am',
+            '10:00am',
+            '11:45am',
+            '1:00pm',
+            '1:30pm',
+            '2:00pm',
+        ]);
+    });
+
+    it('sorts next-day options after the rest of the day', () => {
+        const night = generateTimeOptions('11:00pm', '12:00am', 60, 'h:mma', {
+            wrap: true,
+        });
+        const evening = toTimeOptions(['9:00pm']);
+
+        expect(mergeTimeOptions(night, evening).map((option) => option.value)).toEqual([
+            '9:00pm',
+            '11:00pm',
+            '12:00am',
+        ]);
+    });
+});
+
+describe('excludeTimeRanges', () => {
+    it('removes options inside the given ranges', () => {
+        const day = generateTimeOptions('11:00am', '2:00pm', 60);
+        expect(
+            excludeTimeRanges(day, [{ start: '12:00pm', end: '1:00pm' }]).map(
+                (option) => option.value
+            )
+        ).toEqual(['11:00am', '1:00pm', '2:00pm']);
+    });
+});
+
+describe('timeToSeconds / secondsToTime', () => {
+    it('converts between time values and seconds', () => {
+        expect(timeToSeconds({ hours: 1, minutes: 30 })).toBe(5400);
+        expect(timeToSeconds({ hours: 1, minutes: 30, seconds: 15 })).toBe(5415);
+        expect(secondsToTime(5415)).toEqual({ hours: 1, minutes: 30, seconds: 15 });
+        expect(secondsToTime(86399)).toEqual({ hours: 23, minutes: 59, seconds: 59 });
+    });
+});
+
 describe('generateTimeRange', () => {
     it('generates time options with 30-minute interval', () => {
         const times = generateTimeRange('9:00am', '10:00am', 30);
@@ -73,6 +316,28 @@ describe('generateTimeRange', () => {
         expect(times).toEqual(['9:00am', '10:00am', '11:00am', '12:00pm']);
     });
 
+    it('generates time options in the given format', () => {
+        expect(generateTimeRange('1:00pm', '2:00pm', 30, 'HH:mm')).toEqual([
+            '13:00',
+            '13:30',
+            '14:00',
+        ]);
+        expect(generateTimeRange('13:00', '14:00', 60, 'h:mm A')).toEqual([
+            '1:00 PM',
+            '2:00 PM',
+        ]);
+    });
+
+    it('supports intervals shorter than a minute', () => {
+        expect(generateTimeRange('9:00am', '9:01am', 0.25, 'HH:mm:ss')).toEqual([
+            '09:00:00',
+            '09:00:15',
+            '09:00:30',
+            '09:00:45',
+            '09:01:00',
+        ]);
+    });
+
     it('returns empty array for invalid times', () => {
         expect(generateTimeRange('invalid', '10:00am', 30)).toEqual([]);
         expect(generateTimeRange('9:00am', 'invalid', 30)).toEqual([]);
@@ -82,6 +347,12 @@ describe('generateTimeRange', () => {
         expect(generateTimeRange('10:00am', '9:00am', 30)).toEqual([]);
     });
 
+    it('wraps a night shift past midnight when enabled', () => {
+        expect(
+            generateTimeRange('10:00pm', '6:00am', 120, 'h:mma', { wrap: true })
+        ).toEqual(['10:00pm', '12:00am', '2:00am', '4:00am', '6:00am']);
+    });
+
     it('returns empty array for zero or negative interval', () => {
         expect(generateTimeRange('9:00am', '10:00am', 0)).toEqual([]);
         expect(generateTimeRange('9:00am', '10:00am', -30)).toEqual([]);
@@ -102,6 +373,131 @@ describe('isValidTime', () => {
     });
 });
 
+describe('isSameTime', () => {
+    it('compares times across formats', () => {
+        expect(isSameTime('2:30pm', '14:30')).toBe(true);
+        expect(isSameTime('2:30 PM', '2:30pm')).toBe(true);
+        expect(isSameTime('09:00', '9:00am')).toBe(true);
+        expect(isSameTime('2:30pm', '2:30am')).toBe(false);
+    });
+
+    it('returns false when either time is invalid', () => {
+        expect(isSameTime('invalid', '2:30pm')).toBe(false);
+        expect(isSameTime('2:30pm', '')).toBe(false);
+    });
+});
+
+describe('isTimeDisabled', () => {
+    it('matches individual times', () => {
+        expect(isTimeDisabled({ hours: 12, minutes: 30 }, ['12:30pm'])).toBe(true);
+        expect(isTimeDisabled({ hours: 12, minutes: 0 }, ['12:30pm'])).toBe(false);
+    });
+
+    it('matches ranges with an exclusive end', () => {
+        const lunch = [{ start: '12:00pm', end: '1:00pm' }];
+        expect(isTimeDisabled({ hours: 12, minutes: 0 }, lunch)).toBe(true);
+        expect(isTimeDisabled({ hours: 12, minutes: 45 }, lunch)).toBe(true);
+        expect(isTimeDisabled({ hours: 13, minutes: 0 }, lunch)).toBe(false);
+        expect(isTimeDisabled({ hours: 11, minutes: 59 }, lunch)).toBe(false);
+    });
+
+    it('matches ranges that wrap past midnight', () => {
+        const night = [{ start: '10:00pm', end: '6:00am' }];
+        expect(isTimeDisabled({ hours: 23, minutes: 0 }, night)).toBe(true);
+        expect(isTimeDisabled({ hours: 3, minutes: 0 }, night)).toBe(true);
+        expect(isTimeDisabled({ hours: 12, minutes: 0 }, night)).toBe(false);
+    });
+
+    it('supports predicates', () => {
+        const oddHours = (time: { hours: number }) => time.hours % 2 === 1;
+        expect(isTimeDisabled({ hours: 9, minutes: 0 }, oddHours)).toBe(true);
+        expect(isTimeDisabled({ hours: 10, minutes: 0 }, oddHours)).toBe(false);
+    });
+
+    it('returns false without rules', () => {
+        expect(isTimeDisabled({ hours: 9, minutes: 0 })).toBe(false);
+        expect(isTimeDisabled({ hours: 9, minutes: 0 }, [])).toBe(false);
+    });
+});
+
+describe('snapTime', () => {
+    const time = { hours: 14, minutes: 37 };
+
+    it('snaps to the nearest, previous or next grid point', () => {
+        expect(snapTime(time, 15, 'nearest')).toEqual({ hours: 14, minutes: 30 });
+        expect(snapTime(time, 15, 'floor')).toEqual({ hours: 14, minutes: 30 });
+        expect(snapTime(time, 15, 'ceil')).toEqual({ hours: 14, minutes: 45 });
+        expect(snapTime({ hours: 14, minutes: 38 }, 15, 'nearest')).toEqual({
+            hours: 14,
+            minutes: 45,
+        });
+    });
+
+    it('anchors the grid at the given time', () => {
+        const anchor = { hours: 9, minutes: 10 };
+        expect(snapTime(time, 15, 'floor', anchor)).toEqual({ hours: 14, minutes: 25 });
+        expect(snapTime(time, 15, 'ceil', anchor)).toEqual({ hours: 14, minutes: 40 });
+    });
+
+    it('leaves times unchanged with mode none', () => {
+        expect(snapTime(time, 15, 'none')).toBe(time);
+    });
+
+    it('snaps seconds with sub-minute intervals', () => {
+        expect(snapTime({ hours: 9, minutes: 0, seconds: 20 }, 0.25, 'nearest')).toEqual({
+            hours: 9,
+            minutes: 0,
+            seconds: 15,
+        });
+    });
+
+    it('wraps around midnight', () => {
+        expect(snapTime({ hours: 23, minutes: 50 }, 30, 'ceil')).toEqual({
+            hours: 0,
+            minutes: 0,
+        });
+    });
+});
+
+describe('isTimeInRange', () => {
+    it('checks inclusive bounds', () => {
+        expect(isTimeInRange({ hours: 9, minutes: 0 }, '9:00am', '5:00pm')).toBe(true);
+        expect(isTimeInRange({ hours: 17, minutes: 0 }, '9:00am', '5:00pm')).toBe(true);
+        expect(isTimeInRange({ hours: 17, minutes: 30 }, '9:00am', '5:00pm')).toBe(false);
+    });
+
+    it('wraps past midnight when end is before start', () => {
+        expect(isTimeInRange({ hours: 23, minutes: 0 }, '10:00pm', '6:00am')).toBe(true);
+        expect(isTimeInRange({ hours: 5, minutes: 0 }, '10:00pm', '6:00am')).toBe(true);
+        expect(isTimeInRange({ hours: 12, minutes: 0 }, '10:00pm', '6:00am')).toBe(false);
+    });
+});
+
+describe('getDurationMinutes', () => {
+    it('returns the minutes between two times', () => {
+        expect(getDurationMinutes({ hours: 9, minutes: 0 }, { hours: 10, minutes: 30 })).toBe(90);
+        expect(getDurationMinutes({ hours: 10, minutes: 0 }, { hours: 9, minutes: 0 })).toBe(-60);
+    });
+
+    it('wraps past midnight when overnight is enabled', () => {
+        expect(
+            getDurationMinutes({ hours: 22, minutes: 0 }, { hours: 6, minutes: 0 }, true)
+        ).toBe(480);
+        expect(
+            getDurationMinutes({ hours: 9, minutes: 0 }, { hours: 9, minutes: 0 }, true)
+        ).toBe(1440);
+    });
+});
+
+describe('formatDuration', () => {
+    it('formats hours and minutes', () => {
+        expect(formatDuration(90)).toBe('1h 30m');
+        expect(formatDuration(45)).toBe('45m');
+        expect(formatDuration(120)).toBe('2h');
+        expect(formatDuration(0)).toBe('0m');
+    });
+});
+
 describe('filterTimesByInput', () => {
     const times = ['9:00am', '9:30am', '10:00am', '10:30am'];
 
@@ -118,6 +514,42 @@ describe('filterTimesByInput', () => {
     it('handles case insensitivity', () => {
         expect(filterTimesByInput(times, 'AM')).toEqual(times);
     });
+
+    it('matches shorthand input against options', () => {
+        const options = generateTimeOptions('12:00am', '11:30pm', 30, 'h:mma');
+        const values = (input: string) =>
+            filterTimesByInput(options, input).map((option) => option.value);
+
+        expect(values('230p')).toEqual(['2:30pm']);
+        expect(values('1430')).toEqual(['2:30pm']);
+        expect(values('14')).toEqual(['2:00pm', '2:30pm']);
+        expect(values('noon')).toEqual(['12:00pm']);
+    });
+
+    it('matches shorthand with a custom parser', () => {
+        const parse = createTimeParser({ aliases: { lunch: '12:30pm' } });
+        expect(filterTimesByInput(['12:00pm', '12:30pm'], 'lunch', parse)).toEqual([
+            '12:30pm',
+        ]);
+    });
+
+    it('filters wrapped options in chronological order', () => {
+        const options = generateTimeOptions('10:00pm', '2:00am', 60, 'h:mma', {
+            wrap: true,
+        });
+        const filtered = filterTimesByInput(options, '1:');
+
+        expect(filtered.map((option) => option.value)).toEqual(['11:00pm', '1:00am']);
+        expect(filtered[1].nextDay).toBe(true);
+    });
+
+    it('matches option labels', () => {
+        const options = toTimeOptions([
+            { value: '12:00pm', label: 'Noon' },
+            { value: '1:00pm' },
+        ]);
+        expect(filterTimesByInput(options, 'noon')).toEqual([options[0]]);
+    });
 });
 
 describe('cleanTimeString', () => {
@@ -127,3 +559,142 @@ describe('cleanTimeString', () => {
         expect(cleanTimeString('2:30pm')).toBe('2:30pm');
     });
 });
+
+describe('time zones', () => {
+    const winter = new Date(Date.UTC(2024, 0, 15, 12));
+    const summer = new Date(Date.UTC(2024, 6, 15, 12));
+
+    it('gets the offset in effect at an instant', () => {
+        expect(getTimeZoneOffset('UTC', winter)).toBe(0);
+        expect(getTimeZoneOffset('Europe/Paris', winter)).toBe(60);
+        expect(getTimeZoneOffset('Europe/Paris', summer)).toBe(120);
+        expect(getTimeZoneOffset('America/New_York', summer)).toBe(-240);
+        expect(getTimeZoneOffset('Asia/Kolkata', winter)).toBe(330);
+    });
+
+    it('converts wall-clock times using the reference date', () => {
+        expect(convertTimeZone({ hours: 14, minutes: 0 }, 'UTC', 'America/New_York', winter))
+            .toEqual({ hours: 9, minutes: 0 });
+        expect(convertTimeZone({ hours: 14, minutes: 0 }, 'UTC', 'America/New_York', summer))
+            .toEqual({ hours: 10, minutes: 0 });
+        expect(convertTimeZone({ hours: 9, minutes: 0 }, 'America/New_York', 'UTC', summer))
+            .toEqual({ hours: 13, minutes: 0 });
+    });
+
+    it('follows each zone through the weeks their DST rules disagree', () => {
+        // The US switches on March 10th 2024, Europe on March 31st
+        const gap = new Date(Date.UTC(2024, 2, 20, 12));
+        const nineAm = { hours: 9, minutes: 0 };
+
+        expect(convertTimeZone(nineAm, 'America/New_York', 'Europe/London', winter))
+            .toEqual({ hours: 14, minutes: 0 });
+        expect(convertTimeZone(nineAm, 'America/New_York', 'Europe/London', gap))
+            .toEqual({ hours: 13, minutes: 0 });
+        expect(convertTimeZone(nineAm, 'America/New_York', 'Europe/London', summer))
+            .toEqual({ hours: 14, minutes: 0 });
+    });
+
+    it('wraps past midnight and keeps seconds when given', () => {
+        expect(convertTimeZone({ hours: 23, minutes: 30 }, 'UTC', 'Asia/Tokyo', winter))
+            .toEqual({ hours: 8, minutes: 30 });
+        expect(convertTimeZone({ hours: 9, minutes: 0, seconds: 15 }, 'UTC', 'UTC', winter))
+            .toEqual({ hours: 9, minutes: 0, seconds: 15 });
+        expect(
+            convertTimeZone({ hours: 9, minutes: 0, seconds: 15 }, 'UTC', 'Asia/Kolkata', winter)
+        ).toEqual({ hours: 14, minutes: 30, seconds: 15 });
+    });
+
+    it('finds the instant a zone shows a time on the reference day', () => {
+        const date = zonedTimeToDate({ hours: 9, minutes: 0 }, 'Europe/Paris', summer);
+        expect(date.toISOString()).toBe('2024-07-15T07:00:00.000Z');
+        expect(getZonedTime(date, 'Europe/Paris')).toEqual({ hours: 9, minutes: 0, seconds: 0 });
+    });
+
+    it('uses the offset after a DST change on the day of the change', () => {
+        const springForward = new Date(Date.UTC(2024, 2, 10, 16));
+        const toISO = (hours: number) =>
+            zonedTimeToDate({ hours, minutes: 0 }, 'America/New_York', springForward).toISOString();
+
+        expect(toISO(12)).toBe('2024-03-10T16:00:00.000Z');
+        expect(toISO(1)).toBe('2024-03-10T06:00:00.000Z');
+    });
+
+    it('names zones for a locale', () => {
+        expect(getTimeZoneName('America/New_York', winter, 'en-US')).toBe('EST');
+        expect(getTimeZoneName('America/New_York', summer, 'en-US')).toBe('EDT');
+        expect(getTimeZoneName('Europe/Paris', winter, 'en-GB')).toBe('CET');
+        expect(getTimeZoneName('UTC', winter, 'en-US')).toBe('UTC');
+    });
+});
+
+describe('ISO 8601', () => {
+    it('formats times', () => {
+        expect(toISOTime({ hours: 14, minutes: 30 })).toBe('14:30:00');
+        expect(toISOTime({ hours: 9, minutes: 5, seconds: 7 })).toBe('09:05:07');
+    });
+
+    it('reads the time from times and date-times as written', () => {
+        expect(fromISOTime('14:30')).toEqual({ hours: 14, minutes: 30 });
+        expect(fromISOTime('14:30:15')).toEqual({ hours: 14, minutes: 30, seconds: 15 });
+        expect(fromISOTime('2026-10-19T14:30:00')).toEqual({ hours: 14, minutes: 30, seconds: 0 });
+        expect(fromISOTime('2026-10-19T14:30:00.250Z')).toEqual({ hours: 14, minutes: 30, seconds: 0 });
+        expect(fromISOTime('2026-10-19T09:15+02:00')).toEqual({ hours: 9, minutes: 15 });
+    });
+
+    it('rejects strings without a valid time', () => {
+        expect(fromISOTime('2026-10-19')).toBeNull();
+        expect(fromISOTime('25:00')).toBeNull();
+        expect(fromISOTime('2:30pm')).toBeNull();
+    });
+
+    it('formats local date-times without an offset', () => {
+        expect(toISODateTime(new Date(2026, 9, 19, 14, 30, 5))).toBe('2026-10-19T14:30:05');
+        expect(toISODateTime(new Date(2026, 0, 2, 3, 4))).toBe('2026-01-02T03:04:00');
+    });
+
+    it('applies a time to a Date, keeping the date', () => {
+        const date = new Date(2026, 9, 19, 9, 0, 30, 500);
+        const result = applyTimeToDate(date, { hours: 14, minutes: 30 });
+
+        expect(result).not.toBe(date);
+        expect(toISODateTime(result)).toBe('2026-10-19T14:30:00');
+        expect(result.getMilliseconds()).toBe(0);
+        expect(date.getHours()).toBe(9);
+    });
+
+    it('applies a time in a time zone', () => {
+        const date = new Date('2026-07-15T22:00:00Z');
+        const result = applyTimeToDate(date, { hours: 9, minutes: 0 }, 'Asia/Tokyo');
+
+        // 22:00Z is already July 16th in Tokyo
+        expect(result.toISOString()).toBe('2026-07-16T00:00:00.000Z');
+    });
+
+    it('applies a time to an ISO string, keeping its date and offset', () => {
+        const time = { hours: 14, minutes: 30 };
+
+        expect(applyTimeToDate('2026-10-19T09:00:00', time)).toBe('2026-10-19T14:30:00');
+        expect(applyTimeToDate('2026-10-19', time)).toBe('2026-10-19T14:30:00');
+        expect(applyTimeToDate('2026-10-19T09:00:00', time, 'Asia/Tokyo')).toBe(
+            '2026-10-19T14:30:00'
+        );
+    });
+
+    it('applies a time to an ISO string with an offset like a Date', () => {
+        const time = { hours: 14, minutes: 30 };
+
+        expect(applyTimeToDate('2026-10-19T09:00:00.000Z', time, 'UTC')).toBe(
+            '2026-10-19T14:30:00Z'
+        );
+        expect(applyTimeToDate('2026-10-19T09:00+02:00', time, 'UTC')).toBe(
+            '2026-10-19T16:30:00+02:00'
+        );
+        // 22:00Z is already October 20th in Tokyo
+        expect(applyTimeToDate('2026-10-19T22:00:00Z', { hours: 9, minutes: 0 }, 'Asia/Tokyo')).toBe(
+            '2026-10-20T00:00:00Z'
+        );
+        expect(applyTimeToDate('2026-10-19T09:00-0500', time, 'America/New_York')).toBe(
+            '2026-10-19T13:30:00-0500'
+        );
+    });
+});
@@ -6,78 +6,264 @@
 export interface TimeValue {
     hours: number;
     minutes: number;
+    seconds?: number;
 }
 
 /**
- * Parse a time string like "2:30pm" or "14:30" into hours and minutes
+ * Formats a TimeValue for display, e.g. a locale-aware formatter
+ */
+export type TimeFormatter = (time: TimeValue) => string;
+
+/**
+ * Parses display text back into a TimeValue, or null if it is not a time
+ */
+export type TimeParser = (timeStr: string) => TimeValue | null;
+
+/**
+ * A generated time option
+ */
+export interface TimeOption {
+    /** Formatted time, as passed to onChange */
+    value: string;
+    /** Parsed time of day */
+    time: TimeValue;
+    /** True when the option falls on the day after the range start */
+    nextDay?: boolean;
+    /** True when the option is shown but cannot be selected */
+    disabled?: boolean;
+    /** Text shown instead of the value */
+    label?: string;
+    /** Arbitrary caller data, e.g. availability or a booking id */
+    meta?: Record<string, unknown>;
+}
+
+/**
+ * A time option as supplied by the caller: a time string, or an option
+ * whose `time` is parsed from its value when omitted
+ */
+export type TimeOptionInput = string | (Omit<TimeOption, 'time'> & { time?: TimeValue });
+
+/**
+ * Times that cannot be selected: a list of individual times ("12:30pm") and
+ * ranges ({ start: "12:00pm", end: "1:00pm" }, end exclusive), or a predicate
+ */
+export type DisabledTimes =
+    | Array<string | { start: string; end: string }>
+    | ((time: TimeValue) => boolean);
+
+export interface TimeRangeOptions {
+    /** Continue past midnight when the end is before the start (default: false) */
+    wrap?: boolean;
+}
+
+/**
+ * How typed times are moved onto the interval grid
+ */
+export type SnapMode = 'nearest' | 'floor' | 'ceil' | 'none';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Build a TimeValue, only including seconds when they were given
+ */
+function toTimeValue(hours: number, minutes: number, seconds?: string): TimeValue {
+    return seconds === undefined
+        ? { hours, minutes }
+        : { hours, minutes, seconds: parseInt(seconds, 10) };
+}
+
+const TIME_ALIASES: Record<string, TimeValue> = {
+    noon: { hours: 12, minutes: 0 },
+    midday: { hours: 12, minutes: 0 },
+    midnight: { hours: 0, minutes: 0 },
+};
+
+/**
+ * Parse a time string into hours, minutes and (when present) seconds.
+ *
+ * Accepts "2:30pm", "14:30" and "2:30:15pm" as well as shorthand such as
+ * "2pm", "230p", "2.30 p.m.", "14h30", "1430", "noon" and "midnight".
  */
 export function parseTime(timeStr: string): TimeValue | null {
     const cleaned = timeStr.toLowerCase().replace(/\s/g, '');
 
-    // Try 12-hour format: "2:30pm", "12:00am"
-    const match12 = cleaned.match(/^(\d{1,2}):(\d{2})(am|pm)$/);
-    if (match12) {
-        let hours = parseInt(match12[1], 10);
-        const minutes = parseInt(match12[2], 10);
-        const period = match12[3];
+    const alias = TIME_ALIASES[cleaned];
+    if (alias) {
+        return { ...alias };
+    }
+
+    // Split off a trailing day period: "pm", "p", "p.m."
+    const periodMatch = cleaned.match(/^(.+?)([ap])\.?(?:m\.?)?$/);
+    const period = periodMatch?.[2];
+    const body = periodMatch ? periodMatch[1] : cleaned;
 
-        if (hours < 1 || hours > 12 || minutes < 0 || minutes > 59) {
+    // "2:30", "2.30", "14h30", "14h", "2:30:15", "2", or compact "230", "1430"
+    const match =
+        body.match(/^(\d{1,2})(?:[:.h](\d{2})(?::(\d{2}))?)?h?$/) ??
+        body.match(/^(\d{1,2})(\d{2})$/);
+    if (!match) {
+        return null;
+    }
+
+    let hours = parseInt(match[1], 10);
+    const minutes = match[2] === undefined ? 0 : parseInt(match[2], 10);
+    const seconds = match[3];
+
+    if (minutes > 59 || (seconds !== undefined && parseInt(seconds, 10) > 59)) {
+        return null;
+    }
+
+    if (period) {
+        if (hours < 1 || hours > 12) {
             return null;
         }
-
         // Convert to 24-hour
-        if (period === 'am') {
-            hours = hours === 12 ? 0 : hours;
-        } else {
-            hours = hours === 12 ? 12 : hours + 12;
-        }
-
-        return { hours, minutes };
+        hours = period === 'a' ? hours % 12 : (hours % 12) + 12;
+    } else if (hours > 23) {
+        return null;
     }
 
-    // Try 24-hour format: "14:30", "09:00"
-    const match24 = cleaned.match(/^(\d{1,2}):(\d{2})$/);
-    if (match24) {
-        const hours = parseInt(match24[1], 10);
-        const minutes = parseInt(match24[2], 10);
+    return toTimeValue(hours, minutes, seconds);
+}
 
-        if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
-            return null;
+export interface TimeParserOptions {
+    /** Extra words mapped to times, e.g. { lunch: "12:30pm" } */
+    aliases?: Record<string, string | TimeValue>;
+    /** Custom parsers, tried in order before the fallback */
+    parsers?: TimeParser[];
+    /** Parser used when nothing else matches (default: parseTime) */
+    fallback?: TimeParser;
+}
+
+/**
+ * Build a parser with team-specific aliases and parsers layered on top of
+ * parseTime (or another fallback, such as a locale-aware parser)
+ */
+export function createTimeParser({
+    aliases = {},
+    parsers = [],
+    fallback = parseTime,
+}: TimeParserOptions = {}): TimeParser {
+    const aliasMap = new Map(
+        Object.entries(aliases).map(([alias, time]) => [cleanTimeString(alias), time])
+    );
+
+    return (timeStr) => {
+        const alias = aliasMap.get(cleanTimeString(timeStr));
+        if (alias !== undefined) {
+            return typeof alias === 'string' ? fallback(alias) : { ...alias };
         }
 
-        return { hours, minutes };
-    }
+        for (const parser of parsers) {
+            const time = parser(timeStr);
+            if (time) return time;
+        }
 
-    return null;
+        return fallback(timeStr);
+    };
 }
 
 /**
- * Format a TimeValue to a 12-hour string like "2:30pm"
+ * Default format spec, producing strings like "2:30pm"
+ */
+export const DEFAULT_TIME_FORMAT = 'h:mma';
+
+/**
+ * Default format spec when seconds are shown, producing strings like "2:30:15pm"
+ */
+export const DEFAULT_TIME_FORMAT_WITH_SECONDS = 'h:mm:ssa';
+
+/**
+ * Format a TimeValue using a format spec (default: "h:mma" -> "2:30pm").
+ *
+ * Supported tokens: `H`/`HH` (0-23), `h`/`hh` (1-12), `m`/`mm` (minutes),
+ * `s`/`ss` (seconds), `a` (am/pm) and `A` (AM/PM). Any other character is
+ * copied as-is, so "HH:mm" gives "14:30" and "h:mm:ss A" gives "2:30:15 PM".
  */
-export function formatTime(time: TimeValue): string {
-    const { hours, minutes } = time;
-    const period = hours >= 12 ? 'pm' : 'am';
-    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
-    const displayMinutes = minutes.toString().padStart(2, '0');
+export function formatTime(
+    time: TimeValue,
+    format: string = DEFAULT_TIME_FORMAT
+): string {
+    const { hours, minutes, seconds = 0 } = time;
+    const hours12 = hours % 12 === 0 ? 12 : hours % 12;
+    const pad = (n: number) => n.toString().padStart(2, '0');
 
-    return `${displayHours}:${displayMinutes}${period}`;
+    return format.replace(/HH|H|hh|h|mm|m|ss|s|a|A/g, (token) => {
+        switch (token) {
+            case 'HH':
+                return pad(hours);
+            case 'H':
+                return hours.toString();
+            case 'hh':
+                return pad(hours12);
+            case 'h':
+                return hours12.toString();
+            case 'mm':
+                return pad(minutes);
+            case 'm':
+                return minutes.toString();
+            case 'ss':
+                return pad(seconds);
+            case 's':
+                return seconds.toString();
+            case 'a':
+                return hours >= 12 ? 'pm' : 'am';
+            default:
+                return hours >= 12 ? 'PM' : 'AM';
+        }
+    });
 }
 
 /**
- * Convert TimeValue to total minutes (for comparison)
+ * Convert TimeValue to total minutes (for comparison).
+ * Seconds are ignored; use timeToSeconds for second precision.
  */
 export function timeToMinutes(time: TimeValue): number {
     return time.hours * 60 + time.minutes;
 }
 
 /**
- * Generate an array of time strings from start to end at given interval
+ * Convert total minutes since midnight back to a TimeValue
  */
-export function generateTimeRange(
+export function minutesToTime(totalMinutes: number): TimeValue {
+    return {
+        hours: Math.floor(totalMinutes / 60),
+        minutes: totalMinutes % 60,
+    };
+}
+
+/**
+ * Convert TimeValue to total seconds since midnight
+ */
+export function timeToSeconds(time: TimeValue): number {
+    return time.hours * 3600 + time.minutes * 60 + (time.seconds ?? 0);
+}
+
+/**
+ * Convert total seconds since midnight back to a TimeValue
+ */
+export function secondsToTime(totalSeconds: number): TimeValue {
+    return {
+        hours: Math.floor(totalSeconds / 3600),
+        minutes: Math.floor((totalSeconds % 3600) / 60),
+        seconds: totalSeconds % 60,
+    };
+}
+
+/**
+ * Generate time options from start to end at given interval, formatted
+ * with the given format spec or formatter function. Fractional intervals
+ * step by seconds, e.g. 0.5 gives 30-second options. With `wrap`, an end
+ * before the start continues past midnight and marks those options as
+ * `nextDay`.
+ */
+export function generateTimeOptions(
     startTime: string,
     endTime: string,
-    intervalMinutes: number
-): string[] {
+    intervalMinutes: number,
+    format: string | TimeFormatter = DEFAULT_TIME_FORMAT,
+    { wrap = false }: TimeRangeOptions = {}
+): TimeOption[] {
     const start = parseTime(startTime);
     const end = parseTime(endTime);
 
@@ -85,24 +271,223 @@ export function generateTimeRange(
         return [];
     }
 
-    const startMinutes = timeToMinutes(start);
-    const endMinutes = timeToMinutes(end);
+    const startSeconds = timeToSeconds(start);
+    let endSeconds = timeToSeconds(end);
+    const intervalSeconds = Math.round(intervalMinutes * 60);
+
+    if (startSeconds > endSeconds && wrap) {
+        endSeconds += SECONDS_PER_DAY;
+    }
 
-    if (startMinutes > endMinutes || intervalMinutes <= 0) {
+    if (startSeconds > endSeconds || intervalSeconds <= 0) {
         return [];
     }
 
-    const times: string[] = [];
-    let currentMinutes = startMinutes;
+    const formatValue: TimeFormatter =
+        typeof format === 'function' ? format : (time) => formatTime(time, format);
+    const options: TimeOption[] = [];
+    let currentSeconds = startSeconds;
+
+    while (currentSeconds <= endSeconds) {
+        const time = secondsToTime(currentSeconds % SECONDS_PER_DAY);
+        const option: TimeOption = { value: formatValue(time), time };
+        if (currentSeconds >= SECONDS_PER_DAY) {
+            option.nextDay = true;
+        }
+        options.push(option);
+        currentSeconds += intervalSeconds;
+    }
+
+    return options;
+}
+
+/**
+ * Generate an array of time strings from start to end at given interval.
+ * See generateTimeOptions for the supported formats and wrap-around.
+ */
+export function generateTimeRange(
+    startTime: string,
+    endTime: string,
+    intervalMinutes: number,
+    format: string | TimeFormatter = DEFAULT_TIME_FORMAT,
+    options: TimeRangeOptions = {}
+): string[] {
+    return generateTimeOptions(startTime, endTime, intervalMinutes, format, options).map(
+        (option) => option.value
+    );
+}
+
+/**
+ * Normalize caller-supplied options. Strings are parsed and re-formatted;
+ * entries that are not valid times are dropped.
+ */
+export function toTimeOptions(
+    inputs: TimeOptionInput[],
+    format: string | TimeFormatter = DEFAULT_TIME_FORMAT,
+    parse: TimeParser = parseTime
+): TimeOption[] {
+    const formatValue: TimeFormatter =
+        typeof format === 'function' ? format : (time) => formatTime(time, format);
+    const options: TimeOption[] = [];
+
+    for (const input of inputs) {
+        if (typeof input === 'string') {
+            const time = parse(input);
+            if (time) {
+                options.push({ value: formatValue(time), time });
+            }
+            continue;
+        }
+
+        const time = input.time ?? parse(input.value);
+        if (time) {
+            options.push({ ...input, time });
+        }
+    }
+
+    return options;
+}
 
-    while (currentMinutes <= endMinutes) {
-        const hours = Math.floor(currentMinutes / 60);
-        const minutes = currentMinutes % 60;
-        times.push(formatTime({ hours, minutes }));
-        currentMinutes += intervalMinutes;
+/**
+ * Combine option lists into one chronological list. When several options
+ * share a time, the first one wins.
+ */
+export function mergeTimeOptions(...lists: TimeOption[][]): TimeOption[] {
+    const byTime = new Map<number, TimeOption>();
+
+    for (const option of lists.flat()) {
+        const seconds =
+            timeToSeconds(option.time) + (option.nextDay ? SECONDS_PER_DAY : 0);
+        if (!byTime.has(seconds)) {
+            byTime.set(seconds, option);
+        }
     }
 
-    return times;
+    return [...byTime]
+        .sort(([a], [b]) => a - b)
+        .map(([, option]) => option);
+}
+
+/**
+ * Remove options matching a DisabledTimes rule, e.g. a lunch break
+ */
+export function excludeTimeRanges(
+    options: TimeOption[],
+    ranges: DisabledTimes
+): TimeOption[] {
+    return options.filter((option) => !isTimeDisabled(option.time, ranges));
+}
+
+/**
+ * Move a time onto the interval grid anchored at `anchor` (default: midnight),
+ * e.g. 2:37pm snaps to 2:30pm (floor/nearest) or 2:45pm (ceil) with a
+ * 15-minute interval
+ */
+export function snapTime(
+    time: TimeValue,
+    intervalMinutes: number,
+    mode: SnapMode,
+    anchor: TimeValue = { hours: 0, minutes: 0 }
+): TimeValue {
+    const intervalSeconds = Math.round(intervalMinutes * 60);
+    if (mode === 'none' || intervalSeconds <= 0) {
+        return time;
+    }
+
+    const anchorSeconds = timeToSeconds(anchor);
+    const steps = (timeToSeconds(time) - anchorSeconds) / intervalSeconds;
+    const snappedSteps =
+        mode === 'floor'
+            ? Math.floor(steps)
+            : mode === 'ceil'
+              ? Math.ceil(steps)
+              : Math.round(steps);
+    const snapped =
+        (((anchorSeconds + snappedSteps * intervalSeconds) % SECONDS_PER_DAY) +
+            SECONDS_PER_DAY) %
+        SECONDS_PER_DAY;
+
+    const { seconds, ...rest } = secondsToTime(snapped);
+    return seconds || time.seconds !== undefined ? { ...rest, seconds } : rest;
+}
+
+/**
+ * Check whether a time lies between two time strings (inclusive).
+ * The range wraps past midnight when the end is before the start.
+ */
+export function isTimeInRange(
+    time: TimeValue,
+    startTime: string,
+    endTime: string
+): boolean {
+    const start = parseTime(startTime);
+    const end = parseTime(endTime);
+    if (!start || !end) return false;
+
+    const seconds = timeToSeconds(time);
+    const startSeconds = timeToSeconds(start);
+    const endSeconds = timeToSeconds(end);
+
+    return startSeconds <= endSeconds
+        ? seconds >= startSeconds && seconds <= endSeconds
+        : seconds >= startSeconds || seconds <= endSeconds;
+}
+
+/**
+ * Minutes from start to end. With overnight enabled, an end at or before
+ * the start is treated as the next day.
+ */
+export function getDurationMinutes(
+    start: TimeValue,
+    end: TimeValue,
+    overnight = false
+): number {
+    const duration = Math.floor((timeToSeconds(end) - timeToSeconds(start)) / 60);
+    return overnight && duration <= 0 ? duration + 24 * 60 : duration;
+}
+
+/**
+ * Format a duration in minutes like "1h 30m", "45m" or "2h"
+ */
+export function formatDuration(totalMinutes: number): string {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+
+    if (hours === 0) return `${minutes}m`;
+    if (minutes === 0) return `${hours}h`;
+    return `${hours}h ${minutes}m`;
+}
+
+/**
+ * Check whether a time is blocked by a DisabledTimes rule. Ranges include
+ * their start but not their end, and wrap past midnight when end < start.
+ */
+export function isTimeDisabled(
+    time: TimeValue,
+    disabledTimes?: DisabledTimes
+): boolean {
+    if (!disabledTimes) return false;
+    if (typeof disabledTimes === 'function') return disabledTimes(time);
+
+    const seconds = timeToSeconds(time);
+
+    return disabledTimes.some((rule) => {
+        if (typeof rule === 'string') {
+            const disabled = parseTime(rule);
+            return disabled !== null && timeToSeconds(disabled) === seconds;
+        }
+
+        const start = parseTime(rule.start);
+        const end = parseTime(rule.end);
+        if (!start || !end) return false;
+
+        const startSeconds = timeToSeconds(start);
+        const endSeconds = timeToSeconds(end);
+
+        return startSeconds <= endSeconds
+            ? seconds >= startSeconds && seconds < endSeconds
+            : seconds >= startSeconds || seconds < endSeconds;
+    });
 }
 
 /**
@@ -113,15 +498,94 @@ export function isValidTime(timeStr: string): boolean {
 }
 
 /**
- * Filter times by user input (for typeahead functionality)
+ * Check whether two time strings represent the same time,
+ * regardless of the format they are written in
+ */
+export function isSameTime(
+    a: string,
+    b: string,
+    parse: TimeParser = parseTime
+): boolean {
+    const timeA = parse(a);
+    const timeB = parse(b);
+
+    if (!timeA || !timeB) {
+        return false;
+    }
+
+    return timeToSeconds(timeA) === timeToSeconds(timeB);
+}
+
+/**
+ * Digit sequences an option can be typed as: its display digits plus the
+ * 24-hour forms, so 9:30am matches "930" and "0930", and 2:30pm "230" and "1430"
+ */
+function getDigitKeys(text: string, time: TimeValue | null): string[] {
+    const keys = [text.replace(/\D/g, '')];
+
+    if (time) {
+        const minutes = time.minutes.toString().padStart(2, '0');
+        keys.push(
+            `${time.hours}${minutes}`,
+            `${time.hours.toString().padStart(2, '0')}${minutes}`
+        );
+    }
+
+    return keys;
+}
+
+/**
+ * Filter times or time options by user input (for typeahead functionality).
+ *
+ * Besides plain substring matches on the value or label, shorthand such as
+ * "230p", "1430" or "noon" matches the corresponding times. Order is
+ * preserved, so wrapped ranges stay in chronological order.
  */
-export function filterTimesByInput(times: string[], input: string): string[] {
+export function filterTimesByInput<T extends string | TimeOption>(
+    times: T[],
+    input: string,
+    parse: TimeParser = parseTime
+): T[] {
     const cleaned = input.toLowerCase().replace(/\s/g, '');
     if (!cleaned) return times;
 
-    return times.filter((time) =>
-        time.toLowerCase().replace(/\s/g, '').includes(cleaned)
-    );
+    const inputTime = parse(input);
+    const inputSeconds = inputTime ? timeToSeconds(inputTime) : null;
+    // Compact shorthand like "230p" or "1430": digits plus an optional period
+    const compact = cleaned.match(/^(\d{1,4})(?:([ap])\.?(?:m\.?)?)?$/);
+
+    const matches = (text: string) =>
+        text.toLowerCase().replace(/\s/g, '').includes(cleaned);
+
+    return times.filter((entry) => {
+        const value = typeof entry === 'string' ? entry : entry.value;
+        const label = typeof entry === 'string' ? undefined : entry.label;
+
+        if (matches(value) || (label !== undefined && matches(label))) {
+            return true;
+        }
+
+        const time = typeof entry === 'string' ? parse(entry) : entry.time;
+        if (!time) return false;
+
+        if (inputSeconds !== null && timeToSeconds(time) === inputSeconds) {
+            return true;
+        }
+
+        if (!compact) return false;
+
+        const [, digits, period] = compact;
+        if (period && (time.hours < 12) !== (period === 'a')) {
+            return false;
+        }
+
+        // 24-hour forms need at least two digits and no period, so "1" doesn't
+        // pull in 1pm-7pm and "230p" doesn't match 11:00pm ("2300")
+        const use24Hour = digits.length > 1 && !period;
+        return getDigitKeys(value, use24Hour ? time : null).some((key) =>
+            key.startsWith(digits)
+        );
+    });
 }
 
 /**
@@ -130,3 +594,219 @@ export function filterTimesByInput(times: string[], input: string): string[] {
 export function cleanTimeString(time: string): string {
     return time.toLowerCase().replace(/\s/g, '');
 }
+
+const zonedFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+    let formatter = zonedFormatterCache.get(timeZone);
+
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        });
+        zonedFormatterCache.set(timeZone, formatter);
+    }
+
+    const parts: Record<string, number> = {};
+    for (const { type, value } of formatter.formatToParts(date)) {
+        if (type !== 'literal') parts[type] = parseInt(value, 10);
+    }
+    return parts;
+}
+
+/**
+ * The viewer's IANA time zone, e.g. "Europe/Paris"
+ */
+export function getLocalTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Offset of an IANA time zone from UTC in minutes at an instant,
+ * e.g. 60 for "Europe/Paris" in winter and 120 in summer
+ */
+export function getTimeZoneOffset(timeZone: string, date: Date = new Date()): number {
+    const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+    const wallClock = Date.UTC(year, month - 1, day, hour % 24, minute, second);
+    return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Short name of a time zone at an instant, e.g. "EST", or "CET" for "en-GB"
+ * (falls back to an offset such as "GMT+1" where the locale has no name)
+ */
+export function getTimeZoneName(
+    timeZone: string,
+    date: Date = new Date(),
+    locale?: string
+): string {
+    const part = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+        .formatToParts(date)
+        .find(({ type }) => type === 'timeZoneName');
+    return part?.value ?? timeZone;
+}
+
+/**
+ * The wall-clock time in a time zone at an instant
+ */
+export function getZonedTime(date: Date, timeZone: string): TimeValue {
+    const { hour, minute, second } = getZonedParts(date, timeZone);
+    return { hours: hour % 24, minutes: minute, seconds: second };
+}
+
+/**
+ * The instant a time zone's clock shows `time` on the day `referenceDate`
+ * falls on there. A time skipped by a DST change lands an hour off.
+ */
+export function zonedTimeToDate(
+    time: TimeValue,
+    timeZone: string,
+    referenceDate: Date = new Date()
+): Date {
+    const { year, month, day } = getZonedParts(referenceDate, timeZone);
+    const wallClock = Date.UTC(
+        year,
+        month - 1,
+        day,
+        time.hours,
+        time.minutes,
+        time.seconds ?? 0
+    );
+
+    // The offset may differ between the guess and the result around a DST change
+    const guess = wallClock - getTimeZoneOffset(timeZone, new Date(wallClock)) * 60000;
+    return new Date(wallClock - getTimeZoneOffset(timeZone, new Date(guess)) * 60000);
+}
+
+/**
+ * Convert a wall-clock time between IANA time zones on the day of
+ * `referenceDate` (default: today), using the offsets in effect that day
+ */
+export function convertTimeZone(
+    time: TimeValue,
+    fromTimeZone: string,
+    toTimeZone: string,
+    referenceDate: Date = new Date()
+): TimeValue {
+    if (fromTimeZone === toTimeZone) return time;
+
+    const converted = getZonedTime(
+        zonedTimeToDate(time, fromTimeZone, referenceDate),
+        toTimeZone
+    );
+    return time.seconds === undefined
+        ? { hours: converted.hours, minutes: converted.minutes }
+        : converted;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// The time portion of an ISO 8601 string, with an optional zone designator
+const ISO_TIME_PATTERN =
+    /(?:^|T)(\d{2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+/**
+ * Format a time as ISO 8601, e.g. "14:30:00"
+ */
+export function toISOTime(time: TimeValue): string {
+    return `${pad(time.hours)}:${pad(time.minutes)}:${pad(time.seconds ?? 0)}`;
+}
+
+/**
+ * Read the time from an ISO 8601 time or date-time string as written,
+ * e.g. "14:30", "14:30:15" or "2026-10-19T14:30:00Z". Seconds are only
+ * included when present.
+ */
+export function fromISOTime(iso: string): TimeValue | null {
+    const match = iso.trim().match(ISO_TIME_PATTERN);
+    if (!match) return null;
+
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const seconds = match[3] === undefined ? undefined : parseInt(match[3], 10);
+
+    if (hours > 23 || minutes > 59 || (seconds ?? 0) > 59) {
+        return null;
+    }
+
+    return seconds === undefined ? { hours, minutes } : { hours, minutes, seconds };
+}
+
+/**
+ * Format a date as a local ISO 8601 date-time without offset,
+ * e.g. "2026-10-19T14:30:00"
+ */
+export function toISODateTime(date: Date): string {
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    const time = toISOTime({
+        hours: date.getHours(),
+        minutes: date.getMinutes(),
+        seconds: date.getSeconds(),
+    });
+    return `${day}T${time}`;
+}
+
+/**
+ * The `Z` or `+02:00` designator at the end of an ISO 8601 date-time, if any
+ */
+export function getISOOffset(iso: string): string | null {
+    const timePart = iso.trim().split(/T/i)[1];
+    return timePart?.match(/(Z|[+-]\d{2}(?::?\d{2})?)$/i)?.[0] ?? null;
+}
+
+/**
+ * Format a date as an ISO 8601 date-time at the given offset designator,
+ * e.g. "2026-10-19T16:30:00+02:00"
+ */
+function toISODateTimeAtOffset(date: Date, designator: string): string {
+    const match = designator.match(/^([+-])(\d{2}):?(\d{2})?$/);
+    const offset = match
+        ? (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3] ?? '0', 10))
+        : 0;
+    const shifted = new Date(date.getTime() + offset * 60000);
+    const day = `${shifted.getUTCFullYear()}-${pad(shifted.getUTCMonth() + 1)}-${pad(shifted.getUTCDate())}`;
+    const time = toISOTime({
+        hours: shifted.getUTCHours(),
+        minutes: shifted.getUTCMinutes(),
+        seconds: shifted.getUTCSeconds(),
+    });
+    return `${day}T${time}${designator}`;
+}
+
+/**
+ * Replace the time of day and keep the date. A Date is changed in local
+ * time, or in `timeZone` when given. An ISO string keeps its format: one
+ * without an offset is changed as written, one with `Z` or an offset is
+ * changed like a Date and written back at that offset.
+ */
+export function applyTimeToDate(date: Date, time: TimeValue, timeZone?: string): Date;
+export function applyTimeToDate(iso: string, time: TimeValue, timeZone?: string): string;
+export function applyTimeToDate(
+    date: Date | string,
+    time: TimeValue,
+    timeZone?: string
+): Date | string {
+    if (typeof date === 'string') {
+        const designator = getISOOffset(date);
+        const instant = new Date(date);
+        if (designator && !Number.isNaN(instant.getTime())) {
+            return toISODateTimeAtOffset(applyTimeToDate(instant, time, timeZone), designator);
+        }
+        return `${date.trim().split(/T/i)[0]}T${toISOTime(time)}${designator ?? ''}`;
+    }
+
+    if (timeZone) {
+        return zonedTimeToDate(time, timeZone, date);
+    }
+
+    const result = new Date(date.getTime());
+    result.setHours(time.hours, time.minutes, time.seconds ?? 0, 0);
+    return result;
+}
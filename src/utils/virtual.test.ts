@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getVirtualWindow, getScrollTopForIndex } from './virtual';
+
+describe('getVirtualWindow', () => {
+    it('renders the visible items plus overscan', () => {
+        expect(getVirtualWindow(1440, 36, 0, 240)).toEqual({
+            start: 0,
+            end: 12,
+            paddingTop: 0,
+            paddingBottom: 1428 * 36,
+        });
+    });
+
+    it('follows the scroll position', () => {
+        const window = getVirtualWindow(1440, 36, 36 * 100, 240, 2);
+
+        expect(window.start).toBe(98);
+        expect(window.end).toBe(109);
+        expect(window.paddingTop).toBe(98 * 36);
+        expect(window.paddingBottom).toBe((1440 - 109) * 36);
+    });
+
+    it('stays bounded for any list length', () => {
+        for (const count of [10, 100, 1440, 86400]) {
+            const { start, end } = getVirtualWindow(count, 36, 36 * 5000, 240);
+            expect(end - start).toBeLessThanOrEqual(17);
+            expect(end).toBeLessThanOrEqual(count);
+        }
+    });
+
+    it('clamps at the end of the list', () => {
+        const { start, end, paddingBottom } = getVirtualWindow(20, 36, 36 * 18, 240);
+
+        expect(end).toBe(20);
+        expect(start).toBe(13);
+        expect(paddingBottom).toBe(0);
+    });
+});
+
+describe('getScrollTopForIndex', () => {
+    it('keeps the position when the item is visible', () => {
+        expect(getScrollTopForIndex(3, 36, 0, 240)).toBe(0);
+    });
+
+    it('scrolls up to items above the viewport', () => {
+        expect(getScrollTopForIndex(2, 36, 360, 240)).toBe(72);
+    });
+
+    it('scrolls down just enough for items below the viewport', () => {
+        expect(getScrollTopForIndex(10, 36, 0, 240)).toBe(11 * 36 - 240);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Windowing helpers for rendering long option lists
+ * Assumes every item has the same fixed height
+ */
+
+export interface VirtualWindow {
+    /** Index of the first rendered item */
+    start: number;
+    /** Index after the last rendered item */
+    end: number;
+    /** Space in px standing in for the items before `start` */
+    paddingTop: number;
+    /** Space in px standing in for the items from `end` on */
+    paddingBottom: number;
+}
+
+/**
+ * Get the range of items to render for a scroll position, plus `overscan`
+ * extra items on each side so fast scrolling doesn't show gaps
+ */
+export function getVirtualWindow(
+    count: number,
+    itemHeight: number,
+    scrollTop: number,
+    viewportHeight: number,
+    overscan: number = 5
+): VirtualWindow {
+    const first = Math.min(count, Math.floor(Math.max(0, scrollTop) / itemHeight));
+    const visible = Math.ceil(viewportHeight / itemHeight);
+
+    const start = Math.max(0, first - overscan);
+    const end = Math.min(count, first + visible + overscan);
+
+    return {
+        start,
+        end,
+        paddingTop: start * itemHeight,
+        paddingBottom: (count - end) * itemHeight,
+    };
+}
+
+/**
+ * Get the scroll position that brings an item into view with the least
+ * movement (like scrollIntoView with block: "nearest")
+ */
+export function getScrollTopForIndex(
+    index: number,
+    itemHeight: number,
+    scrollTop: number,
+    viewportHeight: number
+): number {
+    const top = index * itemHeight;
+    const bottom = top + itemHeight;
+
+    if (top < scrollTop) {
+        return top;
+    }
+    if (bottom > scrollTop + viewportHeight) {
+        return Math.max(0, bottom - viewportHeight);
+    }
+    return scrollTop;
+}
@@ -14,10 +14,16 @@ export default defineConfig(({ command }) => ({
     ],
     build: {
         lib: {
-            entry: resolve(__dirname, 'src/index.tsx'),
+            // Segmented mode and the clock are separate entries, so apps
+            // that don't use them don't bundle them
+            entry: {
+                index: resolve(__dirname, 'src/index.tsx'),
+                segmented: resolve(__dirname, 'src/segmented.ts'),
+                clock: resolve(__dirname, 'src/clock.ts'),
+            },
             name: 'ReactTimepicker',
             formats: ['es', 'cjs'],
-            fileName: (format) => `index.${format === 'es' ? 'js' : 'cjs'}`,
+            fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'js' : 'cjs'}`,
         },
         rollupOptions: {
             external: ['react', 'react-dom', 'react/jsx-runtime'],